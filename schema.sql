@@ -17,3 +17,44 @@ CREATE TABLE IF NOT EXISTS order_history (
 CREATE INDEX IF NOT EXISTS idx_order_history_status ON order_history(status);
 CREATE INDEX IF NOT EXISTS idx_order_history_created_at ON order_history(created_at_ms);
 
+ALTER TABLE order_history ADD COLUMN IF NOT EXISTS limit_price NUMERIC NULL;
+ALTER TABLE order_history ADD COLUMN IF NOT EXISTS expires_at_ms BIGINT NULL;
+ALTER TABLE order_history ADD COLUMN IF NOT EXISTS trigger_price NUMERIC NULL;
+ALTER TABLE order_history ADD COLUMN IF NOT EXISTS twap_duration_ms BIGINT NULL;
+ALTER TABLE order_history ADD COLUMN IF NOT EXISTS twap_slices INTEGER NULL;
+ALTER TABLE order_history ADD COLUMN IF NOT EXISTS parent_order_id TEXT NULL;
+CREATE INDEX IF NOT EXISTS idx_order_history_parent ON order_history(parent_order_id);
+ALTER TABLE order_history ADD COLUMN IF NOT EXISTS quote_id TEXT NULL;
+ALTER TABLE order_history ADD COLUMN IF NOT EXISTS quoted_price NUMERIC NULL;
+ALTER TABLE order_history ADD COLUMN IF NOT EXISTS swap_mode TEXT NULL;
+ALTER TABLE order_history ADD COLUMN IF NOT EXISTS amount_in NUMERIC NULL;
+ALTER TABLE order_history ADD COLUMN IF NOT EXISTS amount_out NUMERIC NULL;
+ALTER TABLE order_history ADD COLUMN IF NOT EXISTS time_in_force TEXT NULL;
+ALTER TABLE order_history ADD COLUMN IF NOT EXISTS deadline_ms BIGINT NULL;
+ALTER TABLE order_history ADD COLUMN IF NOT EXISTS exclude_dexes TEXT NULL;
+ALTER TABLE order_history ADD COLUMN IF NOT EXISTS pinned_dex TEXT NULL;
+ALTER TABLE order_history ADD COLUMN IF NOT EXISTS routing_objective TEXT NULL;
+ALTER TABLE order_history ADD COLUMN IF NOT EXISTS routing_reasons TEXT NULL;
+ALTER TABLE order_history ADD COLUMN IF NOT EXISTS priority_fee_micro_lamports NUMERIC NULL;
+
+CREATE TABLE IF NOT EXISTS idempotency_keys (
+  idempotency_key TEXT PRIMARY KEY,
+  order_id TEXT NOT NULL,
+  request_hash TEXT NOT NULL,
+  response TEXT NOT NULL,
+  created_at_ms BIGINT NOT NULL
+);
+
+CREATE TABLE IF NOT EXISTS order_legs (
+  order_id TEXT NOT NULL,
+  leg_index INTEGER NOT NULL,
+  dex TEXT NOT NULL,
+  amount NUMERIC NOT NULL,
+  executed_price NUMERIC NOT NULL,
+  tx_hash TEXT NOT NULL,
+  amount_in NUMERIC NOT NULL,
+  amount_out NUMERIC NOT NULL,
+  PRIMARY KEY (order_id, leg_index)
+);
+ALTER TABLE order_legs ADD COLUMN IF NOT EXISTS token_in TEXT NULL;
+ALTER TABLE order_legs ADD COLUMN IF NOT EXISTS token_out TEXT NULL;
@@ -0,0 +1,137 @@
+import type { FastifyInstance, FastifyPluginCallback } from 'fastify';
+import type { Logger, TokenLaunchEvent } from '../types';
+import { MockLaunchFeed } from '../dex/mockLaunchFeed';
+import { MockDexRouter } from '../dex/mockDexRouter';
+import { FAULT_KINDS, type FaultKind, type FaultSpec, type InjectedFault } from '../dex/faultInjector';
+
+export interface AdminApiDeps {
+  logger: Logger;
+  launchFeed: MockLaunchFeed;
+  router: MockDexRouter;
+}
+
+interface LaunchRequest {
+  token: string;
+  poolId?: string;
+}
+
+function isNonEmptyString(v: unknown): v is string {
+  return typeof v === 'string' && v.trim().length > 0;
+}
+
+function validateLaunch(body: unknown): { ok: true; value: LaunchRequest } | { ok: false; error: string } {
+  const b = body as Partial<LaunchRequest> | null;
+  if (!b || typeof b !== 'object') return { ok: false, error: 'Body must be a JSON object' };
+  if (!isNonEmptyString(b.token)) return { ok: false, error: 'token is required' };
+  if (b.poolId !== undefined && !isNonEmptyString(b.poolId)) {
+    return { ok: false, error: 'poolId must be a non-empty string' };
+  }
+  return { ok: true, value: { token: b.token, ...(b.poolId ? { poolId: b.poolId } : {}) } };
+}
+
+function isPositiveNumber(v: unknown): v is number {
+  return typeof v === 'number' && Number.isFinite(v) && v > 0;
+}
+
+/**
+ * Which optional parameter each fault kind reads; the others are rejected so a typo cannot go unnoticed.
+ */
+const FAULT_PARAMS: Partial<Record<FaultKind, 'timeoutMs' | 'delayMs' | 'fillRatio' | 'gapBps'>> = {
+  quote_timeout: 'timeoutMs',
+  latency_spike: 'delayMs',
+  partial_fill: 'fillRatio',
+  price_gap: 'gapBps'
+};
+
+export function validateFault(
+  body: unknown,
+  venues: string[]
+): { ok: true; value: FaultSpec } | { ok: false; error: string } {
+  const b = body as Partial<FaultSpec> | null;
+  if (!b || typeof b !== 'object') return { ok: false, error: 'Body must be a JSON object' };
+  if (!isNonEmptyString(b.dex) || !venues.includes(b.dex)) {
+    return { ok: false, error: `dex must be one of: ${venues.join(', ')}` };
+  }
+  if (!FAULT_KINDS.includes(b.kind as FaultKind)) {
+    return { ok: false, error: `kind must be one of: ${FAULT_KINDS.join(', ')}` };
+  }
+  const kind = b.kind as FaultKind;
+  const spec: FaultSpec = { dex: b.dex, kind };
+
+  if (b.probability !== undefined) {
+    if (typeof b.probability !== 'number' || !(b.probability > 0 && b.probability <= 1)) {
+      return { ok: false, error: 'probability must be a number in (0, 1]' };
+    }
+    spec.probability = b.probability;
+  }
+  if (b.remaining !== undefined) {
+    if (!Number.isInteger(b.remaining) || (b.remaining as number) < 1) {
+      return { ok: false, error: 'remaining must be a positive integer' };
+    }
+    spec.remaining = b.remaining;
+  }
+
+  for (const param of ['timeoutMs', 'delayMs', 'fillRatio', 'gapBps'] as const) {
+    const value = b[param];
+    if (value === undefined) continue;
+    if (FAULT_PARAMS[kind] !== param) {
+      return { ok: false, error: `${param} does not apply to ${kind}` };
+    }
+    if (!isPositiveNumber(value)) return { ok: false, error: `${param} must be a positive number` };
+    if (param === 'fillRatio' && value >= 1) return { ok: false, error: 'fillRatio must be below 1' };
+    if (param === 'gapBps' && value >= 10_000) return { ok: false, error: 'gapBps must be below 10000' };
+    spec[param] = value;
+  }
+  return { ok: true, value: spec };
+}
+
+/**
+ * Local-only controls for the simulated chain. Not meant to be exposed in a real deployment.
+ */
+export function createAdminApi(deps: AdminApiDeps): FastifyPluginCallback {
+  return (fastify: FastifyInstance, _opts, done) => {
+    fastify.post<{ Body: LaunchRequest; Reply: TokenLaunchEvent | { error: string } }>(
+      '/api/admin/launches',
+      async (req, reply) => {
+        const validation = validateLaunch(req.body);
+        if (!validation.ok) {
+          return reply.status(400).send({ error: validation.error });
+        }
+
+        const launch = await deps.launchFeed.publish(validation.value);
+        deps.logger.info('admin.launch', { token: launch.token, poolId: launch.poolId });
+        return reply.status(200).send(launch);
+      }
+    );
+
+    fastify.post<{ Body: FaultSpec; Reply: InjectedFault | { error: string } }>(
+      '/api/admin/faults',
+      async (req, reply) => {
+        const validation = validateFault(req.body, deps.router.registry.names());
+        if (!validation.ok) {
+          return reply.status(400).send({ error: validation.error });
+        }
+        return reply.status(201).send(deps.router.faults.inject(validation.value));
+      }
+    );
+
+    fastify.get<{ Reply: { faults: InjectedFault[] } }>('/api/admin/faults', async (_req, reply) => {
+      return reply.status(200).send({ faults: deps.router.faults.list() });
+    });
+
+    fastify.delete<{ Params: { faultId: string }; Reply: { faultId: string } | { error: string } }>(
+      '/api/admin/faults/:faultId',
+      async (req, reply) => {
+        const { faultId } = req.params;
+        if (!deps.router.faults.clear(faultId)) return reply.status(404).send({ error: 'Fault not found' });
+        return reply.status(200).send({ faultId });
+      }
+    );
+
+    fastify.delete<{ Reply: { cleared: number } }>('/api/admin/faults', async (_req, reply) => {
+      return reply.status(200).send({ cleared: deps.router.faults.clearAll() });
+    });
+
+    done();
+  };
+}
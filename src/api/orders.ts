@@ -1,16 +1,33 @@
 import type { FastifyInstance, FastifyPluginCallback, FastifyRequest } from 'fastify';
+import { createHash } from 'crypto';
 import { v4 as uuidv4 } from 'uuid';
 import type {
   ActiveOrderStore,
+  AmendOrderRequest,
+  AmendOrderResponse,
+  BatchOrderResult,
+  CancelOrderResponse,
   Db,
+  DexName,
   EventBus,
+  ExecuteBatchRequest,
+  ExecuteBatchResponse,
   ExecuteOrderRequest,
   ExecuteOrderResponse,
   Logger,
   Order,
+  OrderDetailsResponse,
   OrderEvent,
-  QueueClient
+  OrderSearchQuery,
+  OrderSearchResponse,
+  OrderStatus,
+  OrderType,
+  QueueClient,
+  RoutingObjective,
+  SwapMode,
+  TimeInForce
 } from '../types';
+import { withOrderLock } from '../services/orderService';
 
 export interface OrdersApiDeps {
   logger: Logger;
@@ -19,6 +36,10 @@ export interface OrdersApiDeps {
   activeStore: ActiveOrderStore;
   eventBus: EventBus;
   activeOrderTtlSeconds: number;
+  /**
+   * Registered venues. When given, routing preferences naming any other venue are rejected.
+   */
+  dexNames?: DexName[];
 }
 
 function nowMs(): number {
@@ -33,7 +54,53 @@ function isFiniteNumber(v: unknown): v is number {
   return typeof v === 'number' && Number.isFinite(v);
 }
 
-function validateExecuteOrder(body: unknown): { ok: true; value: ExecuteOrderRequest } | { ok: false; error: string } {
+const ORDER_TYPES: OrderType[] = ['market', 'limit', 'stop_loss', 'take_profit', 'twap', 'sniper'];
+const SWAP_MODES: SwapMode[] = ['exact_in', 'exact_out'];
+const TIME_IN_FORCES: TimeInForce[] = ['gtc', 'ioc', 'fok'];
+const ROUTING_OBJECTIVES: RoutingObjective[] = ['best_price', 'lowest_latency'];
+export const TWAP_MAX_SLICES = 100;
+/**
+ * Launch pools are thin and volatile, so sniper orders get their own caps on size and slippage tolerance.
+ */
+export const SNIPER_MAX_AMOUNT = 1_000;
+export const SNIPER_MAX_SLIPPAGE_BPS = 2_000;
+
+/**
+ * Orders can be cancelled until routing finishes; from `building` on the swap is already being assembled.
+ */
+const CANCELLABLE_STATUSES: OrderStatus[] = ['pending', 'armed', 'routing'];
+
+/**
+ * The statuses `order_history` records; the in-flight ones in between live only in the event log.
+ */
+const PERSISTED_STATUSES: OrderStatus[] = ['pending', 'confirmed', 'failed', 'expired', 'completed', 'cancelled'];
+export const ORDER_SEARCH_DEFAULT_LIMIT = 50;
+export const ORDER_SEARCH_MAX_LIMIT = 200;
+
+type OrderSearchQuerystring = Partial<
+  Record<'status' | 'tokenIn' | 'tokenOut' | 'dex' | 'createdFromMs' | 'createdToMs' | 'limit' | 'cursor', string>
+>;
+
+/**
+ * The order's lifecycle status from its event log. `amended` and `requoted` record a change to the order or its
+ * route, not a new status.
+ */
+function currentStatus(events: OrderEvent[]): OrderStatus {
+  for (let i = events.length - 1; i >= 0; i--) {
+    const { status } = events[i];
+    if (status !== 'amended' && status !== 'requoted') return status;
+  }
+  return 'pending';
+}
+
+function isTriggerOrderType(type: OrderType): boolean {
+  return type === 'stop_loss' || type === 'take_profit';
+}
+
+function validateExecuteOrder(
+  body: unknown,
+  dexNames?: DexName[]
+): { ok: true; value: ExecuteOrderRequest } | { ok: false; error: string } {
   const b = body as Partial<ExecuteOrderRequest> | null;
   if (!b || typeof b !== 'object') return { ok: false, error: 'Body must be a JSON object' };
   if (!isNonEmptyString(b.tokenIn)) return { ok: false, error: 'tokenIn is required' };
@@ -42,13 +109,328 @@ function validateExecuteOrder(body: unknown): { ok: true; value: ExecuteOrderReq
   if (!isFiniteNumber(b.slippageBps) || b.slippageBps < 0 || b.slippageBps > 10_000) {
     return { ok: false, error: 'slippageBps must be between 0 and 10000' };
   }
-  return { ok: true, value: { tokenIn: b.tokenIn, tokenOut: b.tokenOut, amount: b.amount, slippageBps: b.slippageBps } };
+  const type = b.type ?? 'market';
+  if (!ORDER_TYPES.includes(type)) return { ok: false, error: `type must be one of: ${ORDER_TYPES.join(', ')}` };
+  const value: ExecuteOrderRequest = {
+    tokenIn: b.tokenIn,
+    tokenOut: b.tokenOut,
+    amount: b.amount,
+    slippageBps: b.slippageBps,
+    type
+  };
+  if (type === 'limit') {
+    if (!isFiniteNumber(b.limitPrice) || b.limitPrice <= 0) {
+      return { ok: false, error: 'limitPrice must be a positive number' };
+    }
+    if (!isFiniteNumber(b.expiresAtMs) || b.expiresAtMs <= nowMs()) {
+      return { ok: false, error: 'expiresAtMs must be a future epoch ms timestamp' };
+    }
+    value.limitPrice = b.limitPrice;
+    value.expiresAtMs = b.expiresAtMs;
+  } else if (b.limitPrice !== undefined || b.expiresAtMs !== undefined) {
+    return { ok: false, error: 'limitPrice and expiresAtMs are only valid for limit orders' };
+  }
+  if (isTriggerOrderType(type)) {
+    if (!isFiniteNumber(b.triggerPrice) || b.triggerPrice <= 0) {
+      return { ok: false, error: 'triggerPrice must be a positive number' };
+    }
+    value.triggerPrice = b.triggerPrice;
+  } else if (b.triggerPrice !== undefined) {
+    return { ok: false, error: 'triggerPrice is only valid for stop_loss and take_profit orders' };
+  }
+  if (type === 'twap') {
+    if (!isFiniteNumber(b.twapDurationMs) || b.twapDurationMs <= 0) {
+      return { ok: false, error: 'twapDurationMs must be a positive number' };
+    }
+    if (!Number.isInteger(b.twapSlices) || (b.twapSlices as number) < 1 || (b.twapSlices as number) > TWAP_MAX_SLICES) {
+      return { ok: false, error: `twapSlices must be an integer between 1 and ${TWAP_MAX_SLICES}` };
+    }
+    value.twapDurationMs = b.twapDurationMs;
+    value.twapSlices = b.twapSlices;
+  } else if (b.twapDurationMs !== undefined || b.twapSlices !== undefined) {
+    return { ok: false, error: 'twapDurationMs and twapSlices are only valid for twap orders' };
+  }
+  if (b.swapMode !== undefined) {
+    if (!SWAP_MODES.includes(b.swapMode)) {
+      return { ok: false, error: `swapMode must be one of: ${SWAP_MODES.join(', ')}` };
+    }
+    value.swapMode = b.swapMode;
+  }
+  if (b.timeInForce !== undefined || b.deadlineMs !== undefined) {
+    // Trigger, sniper and twap orders wait by design; time-in-force only applies to orders that trade right away.
+    if (type !== 'market' && type !== 'limit') {
+      return { ok: false, error: 'timeInForce and deadlineMs are only valid for market and limit orders' };
+    }
+    if (b.timeInForce !== undefined) {
+      if (!TIME_IN_FORCES.includes(b.timeInForce)) {
+        return { ok: false, error: `timeInForce must be one of: ${TIME_IN_FORCES.join(', ')}` };
+      }
+      value.timeInForce = b.timeInForce;
+    }
+    if (b.deadlineMs !== undefined) {
+      if (!isFiniteNumber(b.deadlineMs) || b.deadlineMs <= nowMs()) {
+        return { ok: false, error: 'deadlineMs must be a future epoch ms timestamp' };
+      }
+      value.deadlineMs = b.deadlineMs;
+    }
+  }
+  const unknownDex = (dex: DexName): boolean => dexNames !== undefined && !dexNames.includes(dex);
+  if (b.excludeDexes !== undefined) {
+    if (!Array.isArray(b.excludeDexes) || !b.excludeDexes.every(isNonEmptyString)) {
+      return { ok: false, error: 'excludeDexes must be an array of venue names' };
+    }
+    const unknown = b.excludeDexes.find(unknownDex);
+    if (unknown !== undefined) return { ok: false, error: `excludeDexes names unknown venue: ${unknown}` };
+    value.excludeDexes = [...new Set(b.excludeDexes)];
+  }
+  if (b.pinnedDex !== undefined) {
+    if (!isNonEmptyString(b.pinnedDex)) return { ok: false, error: 'pinnedDex must be a venue name' };
+    if (unknownDex(b.pinnedDex)) return { ok: false, error: `pinnedDex names unknown venue: ${b.pinnedDex}` };
+    if (value.excludeDexes?.includes(b.pinnedDex)) return { ok: false, error: 'pinnedDex must not be excluded' };
+    value.pinnedDex = b.pinnedDex;
+  }
+  if (b.routingObjective !== undefined) {
+    if (!ROUTING_OBJECTIVES.includes(b.routingObjective)) {
+      return { ok: false, error: `routingObjective must be one of: ${ROUTING_OBJECTIVES.join(', ')}` };
+    }
+    value.routingObjective = b.routingObjective;
+  }
+  if (b.priorityFeeMicroLamports !== undefined) {
+    if (!Number.isInteger(b.priorityFeeMicroLamports) || b.priorityFeeMicroLamports < 0) {
+      return { ok: false, error: 'priorityFeeMicroLamports must be a non-negative integer' };
+    }
+    value.priorityFeeMicroLamports = b.priorityFeeMicroLamports;
+  }
+  if (b.quoteId !== undefined) {
+    if (type !== 'market') return { ok: false, error: 'quoteId is only valid for market orders' };
+    // Dry-run quotes are priced for a fixed input amount.
+    if (b.swapMode === 'exact_out') return { ok: false, error: 'quoteId is not supported for exact_out orders' };
+    if (!isNonEmptyString(b.quoteId)) return { ok: false, error: 'quoteId must be a non-empty string' };
+    value.quoteId = b.quoteId;
+  }
+  if (type === 'sniper') {
+    if (b.amount > SNIPER_MAX_AMOUNT) return { ok: false, error: `sniper amount must not exceed ${SNIPER_MAX_AMOUNT}` };
+    if (b.slippageBps > SNIPER_MAX_SLIPPAGE_BPS) {
+      return { ok: false, error: `sniper slippageBps must not exceed ${SNIPER_MAX_SLIPPAGE_BPS}` };
+    }
+  }
+  return { ok: true, value };
+}
+
+/**
+ * Cursors are opaque to clients: base64url-encoded `[createdAtMs, orderId]` of the last row on the page.
+ */
+function encodeSearchCursor(record: { createdAtMs: number; orderId: string }): string {
+  return Buffer.from(JSON.stringify([record.createdAtMs, record.orderId])).toString('base64url');
+}
+
+function decodeSearchCursor(cursor: string): OrderSearchQuery['after'] | null {
+  try {
+    const parsed: unknown = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf8'));
+    if (!Array.isArray(parsed) || parsed.length !== 2) return null;
+    const [createdAtMs, orderId] = parsed as unknown[];
+    if (!isFiniteNumber(createdAtMs) || !isNonEmptyString(orderId)) return null;
+    return { createdAtMs, orderId };
+  } catch {
+    return null;
+  }
+}
+
+function parseEpochMs(v: string | undefined): number | null | undefined {
+  if (v === undefined) return undefined;
+  const n = Number(v);
+  return v.trim().length > 0 && Number.isInteger(n) && n >= 0 ? n : null;
+}
+
+function validateOrderSearch(
+  q: OrderSearchQuerystring
+): { ok: true; value: OrderSearchQuery } | { ok: false; error: string } {
+  const value: OrderSearchQuery = { limit: ORDER_SEARCH_DEFAULT_LIMIT };
+  if (q.status !== undefined) {
+    if (!PERSISTED_STATUSES.includes(q.status as OrderStatus)) {
+      return { ok: false, error: `status must be one of: ${PERSISTED_STATUSES.join(', ')}` };
+    }
+    value.status = q.status as OrderStatus;
+  }
+  if (q.tokenIn !== undefined) {
+    if (!isNonEmptyString(q.tokenIn)) return { ok: false, error: 'tokenIn must be a non-empty string' };
+    value.tokenIn = q.tokenIn;
+  }
+  if (q.tokenOut !== undefined) {
+    if (!isNonEmptyString(q.tokenOut)) return { ok: false, error: 'tokenOut must be a non-empty string' };
+    value.tokenOut = q.tokenOut;
+  }
+  if (q.dex !== undefined) {
+    // Any venue name is accepted: history may include venues that are no longer registered.
+    if (!isNonEmptyString(q.dex)) return { ok: false, error: 'dex must be a non-empty string' };
+    value.dexChosen = q.dex;
+  }
+  const createdFromMs = parseEpochMs(q.createdFromMs);
+  if (createdFromMs === null) return { ok: false, error: 'createdFromMs must be an epoch ms timestamp' };
+  const createdToMs = parseEpochMs(q.createdToMs);
+  if (createdToMs === null) return { ok: false, error: 'createdToMs must be an epoch ms timestamp' };
+  if (createdFromMs !== undefined && createdToMs !== undefined && createdFromMs >= createdToMs) {
+    return { ok: false, error: 'createdFromMs must be before createdToMs' };
+  }
+  value.createdFromMs = createdFromMs;
+  value.createdToMs = createdToMs;
+  if (q.limit !== undefined) {
+    const limit = Number(q.limit);
+    if (!Number.isInteger(limit) || limit < 1 || limit > ORDER_SEARCH_MAX_LIMIT) {
+      return { ok: false, error: `limit must be an integer between 1 and ${ORDER_SEARCH_MAX_LIMIT}` };
+    }
+    value.limit = limit;
+  }
+  if (q.cursor !== undefined) {
+    const after = decodeSearchCursor(q.cursor);
+    if (!after) return { ok: false, error: 'cursor is invalid' };
+    value.after = after;
+  }
+  return { ok: true, value };
+}
+
+const IDEMPOTENCY_KEY_MAX_LENGTH = 255;
+export const BATCH_MAX_ORDERS = 100;
+
+function hashExecuteOrder(request: ExecuteOrderRequest): string {
+  // validateExecuteOrder builds the value in a fixed field order, so its JSON is a canonical form of the request.
+  return createHash('sha256').update(JSON.stringify(request)).digest('hex');
+}
+
+function validateAmendOrder(
+  body: unknown,
+  order: Order
+): { ok: true; value: AmendOrderRequest } | { ok: false; error: string } {
+  const b = body as AmendOrderRequest | null;
+  if (!b || typeof b !== 'object') return { ok: false, error: 'Body must be a JSON object' };
+  if (b.amount === undefined && b.slippageBps === undefined) {
+    return { ok: false, error: 'amount or slippageBps is required' };
+  }
+  if (b.amount !== undefined) {
+    if (!isFiniteNumber(b.amount) || b.amount <= 0) return { ok: false, error: 'amount must be a positive number' };
+    if (order.quoteId !== undefined && b.amount !== order.amount) {
+      return { ok: false, error: 'amount of an order placed against a quote cannot be amended' };
+    }
+  }
+  if (b.slippageBps !== undefined && (!isFiniteNumber(b.slippageBps) || b.slippageBps < 0 || b.slippageBps > 10_000)) {
+    return { ok: false, error: 'slippageBps must be between 0 and 10000' };
+  }
+  return { ok: true, value: { amount: b.amount, slippageBps: b.slippageBps } };
+}
+
+async function emit(deps: OrdersApiDeps, event: OrderEvent): Promise<void> {
+  await deps.activeStore.appendEvent(event.orderId, event, deps.activeOrderTtlSeconds);
+  await deps.eventBus.publish(event.orderId, event);
+}
+
+/**
+ * Cancels the slices of a scheduled TWAP parent that have not got past routing, removing their delayed jobs.
+ * Slices already building or submitted finish on their own. Returns how many slices were cancelled.
+ */
+async function cancelTwapSlices(deps: OrdersApiDeps, parentOrderId: string, updatedAtMs: number): Promise<number> {
+  let cancelled = 0;
+  for (const { orderId } of await deps.db.listChildOrders(parentOrderId)) {
+    const stopped = await withOrderLock(deps.activeStore, orderId, async () => {
+      if (!CANCELLABLE_STATUSES.includes(currentStatus(await deps.activeStore.listEvents(orderId)))) return false;
+      await deps.queue.remove(orderId);
+      await deps.db.cancelOrder({ orderId, updatedAtMs });
+      await emit(deps, { orderId, status: 'cancelled', tsMs: updatedAtMs });
+      return true;
+    });
+    if (stopped) cancelled++;
+  }
+  return cancelled;
 }
 
 async function emitPending(deps: OrdersApiDeps, orderId: string): Promise<void> {
-  const event: OrderEvent = { orderId, status: 'pending', tsMs: nowMs() };
-  await deps.activeStore.appendEvent(orderId, event, deps.activeOrderTtlSeconds);
-  await deps.eventBus.publish(orderId, event);
+  await emit(deps, { orderId, status: 'pending', tsMs: nowMs() });
+}
+
+/**
+ * Turns a validated request into an order, pinning it to the venue and price of its dry-run quote if it has one.
+ */
+async function buildOrder(
+  deps: OrdersApiDeps,
+  request: ExecuteOrderRequest,
+  orderId: string,
+  createdAtMs: number
+): Promise<{ ok: true; order: Order } | { ok: false; error: string }> {
+  const { type = 'market', ...fields } = request;
+  const order: Order = { orderId, type, ...fields, createdAtMs };
+  if (request.quoteId === undefined) return { ok: true, order };
+
+  const quote = await deps.activeStore.getQuote(request.quoteId);
+  if (!quote) return { ok: false, error: 'quoteId is unknown or has expired' };
+  if (quote.tokenIn !== order.tokenIn || quote.tokenOut !== order.tokenOut || quote.amount !== order.amount) {
+    return { ok: false, error: 'tokenIn, tokenOut and amount must match the quote' };
+  }
+  if (quote.decision.hops) {
+    return { ok: false, error: 'quote routes through intermediate tokens and cannot be pinned; omit quoteId' };
+  }
+  // The quote fixes the venue, so it must be one the order's own preferences allow.
+  const quotedDex = quote.decision.chosen.dex;
+  if (order.excludeDexes?.includes(quotedDex)) {
+    return { ok: false, error: `quote is on ${quotedDex}, which the order excludes` };
+  }
+  if (order.pinnedDex !== undefined && order.pinnedDex !== quotedDex) {
+    return { ok: false, error: `quote is on ${quotedDex}, but the order is pinned to ${order.pinnedDex}` };
+  }
+  order.quotedDex = quotedDex;
+  order.quotedPrice = quote.decision.chosen.price;
+  return { ok: true, order };
+}
+
+function waitsArmed(order: Order): boolean {
+  return isTriggerOrderType(order.type) || order.type === 'sniper';
+}
+
+async function armOrder(deps: OrdersApiDeps, order: Order): Promise<void> {
+  const { orderId } = order;
+  await emitPending(deps, orderId);
+  if (isTriggerOrderType(order.type)) {
+    // Trigger orders are not enqueued: they wait armed until the trigger watcher fires them.
+    await emit(deps, { orderId, status: 'armed', tsMs: nowMs(), triggerPrice: order.triggerPrice as number });
+  } else {
+    // Sniper orders wait armed until a launch event for tokenOut arrives.
+    await emit(deps, { orderId, status: 'armed', tsMs: nowMs(), launchToken: order.tokenOut });
+  }
+  await deps.activeStore.armOrder(orderId);
+}
+
+async function acceptOrder(deps: OrdersApiDeps, order: Order): Promise<void> {
+  await deps.activeStore.putActiveOrder(order, deps.activeOrderTtlSeconds);
+  await deps.db.insertOrder(order);
+
+  if (waitsArmed(order)) {
+    await armOrder(deps, order);
+  } else {
+    await deps.queue.enqueue({ orderId: order.orderId });
+
+    // IMPORTANT: per requirements, `pending` is emitted from the API immediately after enqueue.
+    await emitPending(deps, order.orderId);
+  }
+}
+
+/**
+ * Same as acceptOrder for each order, but executable orders reach the queue in a single bulk add.
+ */
+async function acceptOrders(deps: OrdersApiDeps, orders: Order[]): Promise<void> {
+  for (const order of orders) {
+    await deps.activeStore.putActiveOrder(order, deps.activeOrderTtlSeconds);
+    await deps.db.insertOrder(order);
+  }
+
+  const queued = orders.filter((order) => !waitsArmed(order));
+  if (queued.length > 0) {
+    await deps.queue.enqueueBulk(queued.map((order) => ({ orderId: order.orderId })));
+  }
+  for (const order of orders) {
+    if (waitsArmed(order)) {
+      await armOrder(deps, order);
+    } else {
+      await emitPending(deps, order.orderId);
+    }
+  }
 }
 
 function computeWsUrl(req: FastifyRequest, orderId: string): string {
@@ -63,36 +445,240 @@ export function createOrdersApi(deps: OrdersApiDeps): FastifyPluginCallback {
     fastify.post<{ Body: ExecuteOrderRequest; Reply: ExecuteOrderResponse | { error: string } }>(
       '/api/orders/execute',
       async (req, reply) => {
-        const validation = validateExecuteOrder(req.body);
+        const validation = validateExecuteOrder(req.body, deps.dexNames);
         if (!validation.ok) {
           return reply.status(400).send({ error: validation.error });
         }
 
+        const rawKey = req.headers['idempotency-key'];
+        if (rawKey !== undefined && (!isNonEmptyString(rawKey) || rawKey.length > IDEMPOTENCY_KEY_MAX_LENGTH)) {
+          return reply
+            .status(400)
+            .send({ error: `Idempotency-Key must be at most ${IDEMPOTENCY_KEY_MAX_LENGTH} non-blank characters` });
+        }
+
         const orderId = uuidv4();
         const createdAtMs = nowMs();
-        const order: Order = {
-          orderId,
-          type: 'market',
-          tokenIn: validation.value.tokenIn,
-          tokenOut: validation.value.tokenOut,
-          amount: validation.value.amount,
-          slippageBps: validation.value.slippageBps,
-          createdAtMs
-        };
+        const wsUrl = computeWsUrl(req, orderId);
 
-        await deps.activeStore.putActiveOrder(order, deps.activeOrderTtlSeconds);
-        await deps.db.insertOrder(order);
-        await deps.queue.enqueue({ orderId });
+        if (rawKey !== undefined) {
+          // Claim the key before creating anything, so concurrent retries cannot both create an order.
+          const requestHash = hashExecuteOrder(validation.value);
+          const claimed = await deps.db.claimIdempotencyKey({
+            key: rawKey,
+            orderId,
+            requestHash,
+            response: { orderId, wsUrl },
+            createdAtMs
+          });
+          if (claimed.orderId !== orderId) {
+            if (claimed.requestHash !== requestHash) {
+              return reply.status(409).send({ error: 'Idempotency-Key was already used with a different request' });
+            }
+            deps.logger.info('order.idempotent_replay', { orderId: claimed.orderId, idempotencyKey: rawKey });
+            return reply.status(200).send(claimed.response);
+          }
+        }
 
-        // IMPORTANT: per requirements, `pending` is emitted from the API immediately after enqueue.
-        await emitPending(deps, orderId);
+        // Until the order is accepted, failures release the key so a retry is not answered with a phantom order.
+        const release = async (): Promise<void> => {
+          if (rawKey !== undefined) await deps.db.releaseIdempotencyKey(rawKey, orderId);
+        };
+        const built = await buildOrder(deps, validation.value, orderId, createdAtMs);
+        if (!built.ok) {
+          await release();
+          return reply.status(400).send({ error: built.error });
+        }
+        try {
+          await acceptOrder(deps, built.order);
+        } catch (err) {
+          await release();
+          throw err;
+        }
 
-        const wsUrl = computeWsUrl(req, orderId);
         deps.logger.info('order.submitted', { orderId, wsUrl });
         return reply.status(200).send({ orderId, wsUrl });
       }
     );
 
+    fastify.post<{
+      Body: ExecuteBatchRequest;
+      Reply: ExecuteBatchResponse | { error: string; results?: BatchOrderResult[] };
+    }>(
+      '/api/orders/batch',
+      async (req, reply) => {
+        const body = req.body as Partial<ExecuteBatchRequest> | null;
+        if (!body || typeof body !== 'object' || !Array.isArray(body.orders) || body.orders.length === 0) {
+          return reply.status(400).send({ error: 'orders must be a non-empty array' });
+        }
+        if (body.orders.length > BATCH_MAX_ORDERS) {
+          return reply.status(400).send({ error: `orders must contain at most ${BATCH_MAX_ORDERS} items` });
+        }
+        if (body.allOrNothing !== undefined && typeof body.allOrNothing !== 'boolean') {
+          return reply.status(400).send({ error: 'allOrNothing must be a boolean' });
+        }
+
+        const createdAtMs = nowMs();
+        const built = await Promise.all(
+          body.orders.map(async (item) => {
+            const validation = validateExecuteOrder(item, deps.dexNames);
+            return validation.ok ? await buildOrder(deps, validation.value, uuidv4(), createdAtMs) : validation;
+          })
+        );
+        const invalidCount = built.filter((b) => !b.ok).length;
+        if (body.allOrNothing && invalidCount > 0) {
+          const results: BatchOrderResult[] = built.map((b) =>
+            b.ok ? { ok: false, error: 'Not submitted: the batch contains invalid orders' } : b
+          );
+          return reply
+            .status(400)
+            .send({ error: `Batch rejected: ${invalidCount} of ${built.length} orders are invalid`, results });
+        }
+
+        const orders: Order[] = [];
+        const results: BatchOrderResult[] = built.map((b) => {
+          if (!b.ok) return b;
+          orders.push(b.order);
+          return { ok: true, orderId: b.order.orderId, wsUrl: computeWsUrl(req, b.order.orderId) };
+        });
+
+        await acceptOrders(deps, orders);
+
+        deps.logger.info('order.batch_submitted', { submitted: orders.length, rejected: invalidCount });
+        return reply.status(200).send({ results });
+      }
+    );
+
+    fastify.get<{ Querystring: OrderSearchQuerystring; Reply: OrderSearchResponse | { error: string } }>(
+      '/api/orders',
+      async (req, reply) => {
+        const validation = validateOrderSearch(req.query ?? {});
+        if (!validation.ok) {
+          return reply.status(400).send({ error: validation.error });
+        }
+
+        // Fetch one extra row to learn whether another page exists without a separate COUNT.
+        const query = validation.value;
+        const rows = await deps.db.searchOrders({ ...query, limit: query.limit + 1 });
+        const items = rows.slice(0, query.limit);
+        const nextCursor = rows.length > query.limit ? encodeSearchCursor(items[items.length - 1]) : null;
+        return reply.status(200).send({ items, nextCursor });
+      }
+    );
+
+    fastify.get<{ Params: { orderId: string }; Reply: OrderDetailsResponse | { error: string } }>(
+      '/api/orders/:orderId',
+      async (req, reply) => {
+        const { orderId } = req.params;
+        const record = await deps.db.getOrder(orderId);
+        if (!record) return reply.status(404).send({ error: 'Order not found' });
+
+        const events = await deps.activeStore.listEvents(orderId);
+        const legs = await deps.db.listOrderLegs(orderId);
+        if (events.length === 0) {
+          return reply.status(200).send({ ...record, events, legs, source: 'history' });
+        }
+        // Postgres only records terminal transitions; the event log holds the order's current status.
+        const status = currentStatus(events);
+        return reply.status(200).send({ ...record, status, events, legs, source: 'active' });
+      }
+    );
+
+    fastify.delete<{ Params: { orderId: string }; Reply: CancelOrderResponse | { error: string } }>(
+      '/api/orders/:orderId',
+      async (req, reply) => {
+        const { orderId } = req.params;
+        const order = await deps.activeStore.getActiveOrder(orderId);
+        if (!order) {
+          const record = await deps.db.getOrder(orderId);
+          if (!record) return reply.status(404).send({ error: 'Order not found' });
+          return reply.status(409).send({ error: `Too late to cancel: order is already ${record.status}` });
+        }
+        if (order.parentOrderId) {
+          return reply
+            .status(409)
+            .send({ error: 'TWAP slices cannot be cancelled individually; cancel the parent order instead' });
+        }
+
+        // Under the order lock the worker cannot move the order past routing while we decide.
+        let slicesCancelled = 0;
+        const lastStatus = await withOrderLock(deps.activeStore, orderId, async () => {
+          const last = currentStatus(await deps.activeStore.listEvents(orderId));
+          // A scheduled TWAP parent can still stop the slices it has not executed yet.
+          const runningTwap = order.type === 'twap' && last === 'progress';
+          if (!runningTwap && !CANCELLABLE_STATUSES.includes(last)) return last;
+          // Losing the disarm means a watcher has already triggered the order.
+          if (last === 'armed' && !(await deps.activeStore.disarmOrder(orderId))) return 'triggered';
+
+          await deps.queue.remove(orderId);
+          const updatedAtMs = nowMs();
+          if (runningTwap) slicesCancelled = await cancelTwapSlices(deps, orderId, updatedAtMs);
+          await deps.db.cancelOrder({ orderId, updatedAtMs });
+          await emit(deps, { orderId, status: 'cancelled', tsMs: updatedAtMs });
+          return 'cancelled' as const;
+        });
+
+        if (lastStatus !== 'cancelled') {
+          return reply.status(409).send({ error: `Too late to cancel: order is already ${lastStatus}` });
+        }
+        deps.logger.info('order.cancelled', { orderId, ...(order.type === 'twap' ? { slicesCancelled } : {}) });
+        return reply.status(200).send({ orderId, status: 'cancelled' });
+      }
+    );
+
+    fastify.patch<{
+      Params: { orderId: string };
+      Body: AmendOrderRequest;
+      Reply: AmendOrderResponse | { error: string };
+    }>(
+      '/api/orders/:orderId',
+      async (req, reply) => {
+        const { orderId } = req.params;
+        const order = await deps.activeStore.getActiveOrder(orderId);
+        if (!order) {
+          const record = await deps.db.getOrder(orderId);
+          if (!record) return reply.status(404).send({ error: 'Order not found' });
+          return reply.status(409).send({ error: `Too late to amend: order is already ${record.status}` });
+        }
+        // A twap parent's amount is already split across its slices once it is scheduled.
+        if (order.type === 'twap' || order.parentOrderId) {
+          return reply.status(409).send({ error: 'TWAP orders cannot be amended' });
+        }
+        const validation = validateAmendOrder(req.body, order);
+        if (!validation.ok) {
+          return reply.status(400).send({ error: validation.error });
+        }
+
+        // The worker reads the order under the same lock before routing, so it sees all of an amendment or none.
+        const result = await withOrderLock(deps.activeStore, orderId, async () => {
+          const events = await deps.activeStore.listEvents(orderId);
+          if (!events.every((e) => e.status === 'pending' || e.status === 'amended')) {
+            return { amended: false as const, status: currentStatus(events) };
+          }
+
+          const latest = (await deps.activeStore.getActiveOrder(orderId)) ?? order;
+          const previous = { amount: latest.amount, slippageBps: latest.slippageBps };
+          const current = {
+            amount: validation.value.amount ?? latest.amount,
+            slippageBps: validation.value.slippageBps ?? latest.slippageBps
+          };
+          const revision = events.filter((e) => e.status === 'amended').length + 1;
+          const updatedAtMs = nowMs();
+
+          await deps.activeStore.putActiveOrder({ ...latest, ...current }, deps.activeOrderTtlSeconds);
+          await deps.db.amendOrder({ orderId, ...current, updatedAtMs });
+          await emit(deps, { orderId, status: 'amended', tsMs: updatedAtMs, revision, previous, current });
+          return { amended: true as const, response: { orderId, revision, previous, current } };
+        });
+
+        if (!result.amended) {
+          return reply.status(409).send({ error: `Too late to amend: order is already ${result.status}` });
+        }
+        deps.logger.info('order.amended', { ...result.response });
+        return reply.status(200).send(result.response);
+      }
+    );
+
     done();
   };
 }
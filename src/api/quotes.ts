@@ -0,0 +1,85 @@
+import type { FastifyInstance, FastifyPluginCallback } from 'fastify';
+import { v4 as uuidv4 } from 'uuid';
+import type { ActiveOrderStore, Logger, RouteQuote, RoutingDecision } from '../types';
+import { MockDexRouter, NoRouteError } from '../dex/mockDexRouter';
+import type { QuoteCacheStats } from '../dex/quoteCache';
+import { CircuitOpenError } from '../dex/venueHealth';
+
+export interface QuotesApiDeps {
+  logger: Logger;
+  router: MockDexRouter;
+  activeStore: ActiveOrderStore;
+  quoteTtlMs?: number;
+}
+
+/**
+ * Long enough to review a quote and submit against it, short enough that the quoted price is still meaningful.
+ */
+export const QUOTE_TTL_MS = 15_000;
+
+type QuoteQuerystring = Partial<Record<'tokenIn' | 'tokenOut' | 'amount', string>>;
+
+function isNonEmptyString(v: unknown): v is string {
+  return typeof v === 'string' && v.trim().length > 0;
+}
+
+function validateQuote(
+  q: QuoteQuerystring
+): { ok: true; value: { tokenIn: string; tokenOut: string; amount: number } } | { ok: false; error: string } {
+  if (!isNonEmptyString(q.tokenIn)) return { ok: false, error: 'tokenIn is required' };
+  if (!isNonEmptyString(q.tokenOut)) return { ok: false, error: 'tokenOut is required' };
+  const amount = Number(q.amount);
+  if (!isNonEmptyString(q.amount) || !Number.isFinite(amount) || amount <= 0) {
+    return { ok: false, error: 'amount must be a positive number' };
+  }
+  return { ok: true, value: { tokenIn: q.tokenIn, tokenOut: q.tokenOut, amount } };
+}
+
+export function createQuotesApi(deps: QuotesApiDeps): FastifyPluginCallback {
+  return (fastify: FastifyInstance, _opts, done) => {
+    fastify.get<{ Reply: QuoteCacheStats }>('/api/quotes/cache', async (_req, reply) => {
+      return reply.status(200).send(deps.router.quoteCache.stats());
+    });
+
+    fastify.get<{ Querystring: QuoteQuerystring; Reply: RouteQuote | { error: string } }>(
+      '/api/quotes',
+      async (req, reply) => {
+        const validation = validateQuote(req.query ?? {});
+        if (!validation.ok) {
+          return reply.status(400).send({ error: validation.error });
+        }
+
+        const quoteId = uuidv4();
+        const createdAtMs = Date.now();
+        // Routing only reads the pair and amount; the quote id stands in for the order id in routing logs.
+        let decision: RoutingDecision;
+        try {
+          decision = await deps.router.route({
+            orderId: quoteId,
+            type: 'market',
+            ...validation.value,
+            slippageBps: 0,
+            createdAtMs
+          });
+        } catch (err) {
+          if (err instanceof NoRouteError) return reply.status(400).send({ error: err.message });
+          if (err instanceof CircuitOpenError) return reply.status(503).send({ error: err.message });
+          throw err;
+        }
+        const quote: RouteQuote = {
+          quoteId,
+          ...validation.value,
+          decision,
+          createdAtMs,
+          expiresAtMs: createdAtMs + (deps.quoteTtlMs ?? QUOTE_TTL_MS)
+        };
+        await deps.activeStore.putQuote(quote);
+
+        deps.logger.info('quote.created', { quoteId, dex: decision.chosen.dex, price: decision.chosen.price });
+        return reply.status(200).send(quote);
+      }
+    );
+
+    done();
+  };
+}
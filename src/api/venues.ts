@@ -0,0 +1,25 @@
+import type { FastifyInstance, FastifyPluginCallback } from 'fastify';
+import { MockDexRouter } from '../dex/mockDexRouter';
+import type { VenueHealthStats } from '../dex/venueHealth';
+
+export interface VenuesApiDeps {
+  router: MockDexRouter;
+}
+
+export function createVenuesApi(deps: VenuesApiDeps): FastifyPluginCallback {
+  return (fastify: FastifyInstance, _opts, done) => {
+    fastify.get<{ Reply: { quoteTimeoutMs: number; cooldownMs: number; venues: VenueHealthStats[] } }>(
+      '/api/venues/health',
+      async (_req, reply) => {
+        const health = deps.router.venueHealth;
+        return reply.status(200).send({
+          quoteTimeoutMs: health.quoteTimeoutMs,
+          cooldownMs: health.cooldownMs,
+          venues: health.stats(deps.router.registry.names())
+        });
+      }
+    );
+
+    done();
+  };
+}
@@ -1,9 +1,10 @@
 import WebSocket from 'ws';
 
 type ExecuteOrderResponse = { orderId: string; wsUrl: string };
+type QuoteCacheStats = { ttlMs: number; entries: number; hits: number; misses: number; coalesced: number };
 type OrderEvent =
   | { orderId: string; status: 'pending' | 'routing' | 'building' | 'submitted'; tsMs: number }
-  | { orderId: string; status: 'confirmed'; tsMs: number; txHash: string; dex: 'raydium' | 'meteora'; executedPrice: number }
+  | { orderId: string; status: 'confirmed'; tsMs: number; txHash: string; dex: string; executedPrice: number }
   | { orderId: string; status: 'failed'; tsMs: number; error: string };
 
 type OrderRunResult = {
@@ -12,7 +13,7 @@ type OrderRunResult = {
   final: 'confirmed' | 'failed';
   statuses: string[];
   durationMs: number;
-  dex?: 'raydium' | 'meteora';
+  dex?: string;
   executedPrice?: number;
   txHash?: string;
   error?: string;
@@ -106,8 +107,10 @@ function sleep(ms: number): Promise<void> {
 
 function requiredOrder(statuses: string[]): boolean {
   const required = ['pending', 'routing', 'building', 'submitted'];
+  // A re-quote onto another venue adds a `requoted` event but leaves the lifecycle as is.
+  const lifecycle = statuses.filter((s) => s !== 'requoted');
   for (let i = 0; i < required.length; i++) {
-    if (statuses[i] !== required[i]) return false;
+    if (lifecycle[i] !== required[i]) return false;
   }
   return true;
 }
@@ -125,6 +128,18 @@ async function postExecute(baseUrl: string, body: unknown): Promise<ExecuteOrder
   return (await res.json()) as ExecuteOrderResponse;
 }
 
+/**
+ * Quote cache counters from the server, or null when it does not expose them.
+ */
+async function getQuoteCacheStats(baseUrl: string): Promise<QuoteCacheStats | null> {
+  try {
+    const res = await fetch(`${baseUrl.replace(/\/+$/, '')}/api/quotes/cache`);
+    return res.ok ? ((await res.json()) as QuoteCacheStats) : null;
+  } catch {
+    return null;
+  }
+}
+
 async function runOneOrder(opts: {
   baseUrl: string;
   tokenIn: string;
@@ -281,6 +296,9 @@ async function main(): Promise<void> {
   );
   if (!quiet) console.log(c('---', 'gray', color));
 
+  // Counters are server-wide, so the run's share is the difference across it.
+  const cacheBefore = await getQuoteCacheStats(baseUrl);
+
   // Stagger slightly so logs are readable but still simultaneous.
   const runs = Array.from({ length: count }).map(async (_, i) => {
     await sleep(i * 50);
@@ -327,6 +345,22 @@ async function main(): Promise<void> {
     }
   }
 
+  const cacheAfter = await getQuoteCacheStats(baseUrl);
+  if (cacheBefore && cacheAfter) {
+    const hits = cacheAfter.hits - cacheBefore.hits;
+    const coalesced = cacheAfter.coalesced - cacheBefore.coalesced;
+    const misses = cacheAfter.misses - cacheBefore.misses;
+    const total = hits + coalesced + misses;
+    const shared = total === 0 ? 0 : Math.round(((hits + coalesced) / total) * 100);
+    console.log(
+      `${c('quote cache', 'bold', color)} hits=${hits} coalesced=${coalesced} misses=${misses} ${c(
+        `(${shared}% shared, ttl ${cacheAfter.ttlMs}ms)`,
+        'gray',
+        color
+      )}`
+    );
+  }
+
   if (failed > 0) process.exitCode = 1;
 }
 
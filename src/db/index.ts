@@ -1,7 +1,15 @@
 import { Pool } from 'pg';
 // eslint-disable-next-line @typescript-eslint/no-var-requires
 const { newDb } = require('pg-mem');
-import type { Db, DexName, Order, OrderFinalRecord } from '../types';
+import type {
+  Db,
+  IdempotencyRecord,
+  Order,
+  OrderFinalRecord,
+  OrderLeg,
+  OrderSearchQuery,
+  VenueRoutingReason
+} from '../types';
 
 export const createSchemaSql = `
 CREATE TABLE IF NOT EXISTS order_history (
@@ -22,11 +30,51 @@ CREATE TABLE IF NOT EXISTS order_history (
 
 CREATE INDEX IF NOT EXISTS idx_order_history_status ON order_history(status);
 CREATE INDEX IF NOT EXISTS idx_order_history_created_at ON order_history(created_at_ms);
+
+ALTER TABLE order_history ADD COLUMN IF NOT EXISTS limit_price NUMERIC NULL;
+ALTER TABLE order_history ADD COLUMN IF NOT EXISTS expires_at_ms BIGINT NULL;
+ALTER TABLE order_history ADD COLUMN IF NOT EXISTS trigger_price NUMERIC NULL;
+ALTER TABLE order_history ADD COLUMN IF NOT EXISTS twap_duration_ms BIGINT NULL;
+ALTER TABLE order_history ADD COLUMN IF NOT EXISTS twap_slices INTEGER NULL;
+ALTER TABLE order_history ADD COLUMN IF NOT EXISTS parent_order_id TEXT NULL;
+CREATE INDEX IF NOT EXISTS idx_order_history_parent ON order_history(parent_order_id);
+ALTER TABLE order_history ADD COLUMN IF NOT EXISTS quote_id TEXT NULL;
+ALTER TABLE order_history ADD COLUMN IF NOT EXISTS quoted_price NUMERIC NULL;
+ALTER TABLE order_history ADD COLUMN IF NOT EXISTS swap_mode TEXT NULL;
+ALTER TABLE order_history ADD COLUMN IF NOT EXISTS amount_in NUMERIC NULL;
+ALTER TABLE order_history ADD COLUMN IF NOT EXISTS amount_out NUMERIC NULL;
+ALTER TABLE order_history ADD COLUMN IF NOT EXISTS time_in_force TEXT NULL;
+ALTER TABLE order_history ADD COLUMN IF NOT EXISTS deadline_ms BIGINT NULL;
+ALTER TABLE order_history ADD COLUMN IF NOT EXISTS exclude_dexes TEXT NULL;
+ALTER TABLE order_history ADD COLUMN IF NOT EXISTS pinned_dex TEXT NULL;
+ALTER TABLE order_history ADD COLUMN IF NOT EXISTS routing_objective TEXT NULL;
+ALTER TABLE order_history ADD COLUMN IF NOT EXISTS routing_reasons TEXT NULL;
+ALTER TABLE order_history ADD COLUMN IF NOT EXISTS priority_fee_micro_lamports NUMERIC NULL;
+
+CREATE TABLE IF NOT EXISTS idempotency_keys (
+  idempotency_key TEXT PRIMARY KEY,
+  order_id TEXT NOT NULL,
+  request_hash TEXT NOT NULL,
+  response TEXT NOT NULL,
+  created_at_ms BIGINT NOT NULL
+);
+
+CREATE TABLE IF NOT EXISTS order_legs (
+  order_id TEXT NOT NULL,
+  leg_index INTEGER NOT NULL,
+  dex TEXT NOT NULL,
+  amount NUMERIC NOT NULL,
+  executed_price NUMERIC NOT NULL,
+  tx_hash TEXT NOT NULL,
+  amount_in NUMERIC NOT NULL,
+  amount_out NUMERIC NOT NULL,
+  PRIMARY KEY (order_id, leg_index)
+);
+ALTER TABLE order_legs ADD COLUMN IF NOT EXISTS token_in TEXT NULL;
+ALTER TABLE order_legs ADD COLUMN IF NOT EXISTS token_out TEXT NULL;
 `.trim();
 
 function mapRowToOrder(row: any): OrderFinalRecord {
-  const dex =
-    row.dex_chosen === 'raydium' || row.dex_chosen === 'meteora' ? (row.dex_chosen as DexName) : null;
   return {
     orderId: String(row.order_id),
     type: row.order_type,
@@ -35,10 +83,31 @@ function mapRowToOrder(row: any): OrderFinalRecord {
     amount: Number(row.amount),
     slippageBps: Number(row.slippage_bps),
     status: row.status,
-    dexChosen: dex,
+    dexChosen: row.dex_chosen === null ? null : String(row.dex_chosen),
     executedPrice: row.executed_price === null ? null : Number(row.executed_price),
     txHash: row.tx_hash ? String(row.tx_hash) : null,
     failureReason: row.failure_reason ? String(row.failure_reason) : null,
+    limitPrice: row.limit_price === null ? null : Number(row.limit_price),
+    expiresAtMs: row.expires_at_ms === null ? null : Number(row.expires_at_ms),
+    triggerPrice: row.trigger_price === null ? null : Number(row.trigger_price),
+    twapDurationMs: row.twap_duration_ms === null ? null : Number(row.twap_duration_ms),
+    twapSlices: row.twap_slices === null ? null : Number(row.twap_slices),
+    parentOrderId: row.parent_order_id ? String(row.parent_order_id) : null,
+    quoteId: row.quote_id ? String(row.quote_id) : null,
+    quotedPrice: row.quoted_price === null ? null : Number(row.quoted_price),
+    // Rows written before exact_out existed have no swap_mode.
+    swapMode: row.swap_mode === 'exact_out' ? 'exact_out' : 'exact_in',
+    amountIn: row.amount_in === null ? null : Number(row.amount_in),
+    amountOut: row.amount_out === null ? null : Number(row.amount_out),
+    timeInForce: row.time_in_force === 'ioc' || row.time_in_force === 'fok' ? row.time_in_force : 'gtc',
+    deadlineMs: row.deadline_ms === null ? null : Number(row.deadline_ms),
+    // JSON arrays; rows written before routing preferences existed have neither.
+    excludeDexes: row.exclude_dexes ? JSON.parse(String(row.exclude_dexes)) : [],
+    pinnedDex: row.pinned_dex ? String(row.pinned_dex) : null,
+    routingObjective: row.routing_objective === 'lowest_latency' ? 'lowest_latency' : 'best_price',
+    priorityFeeMicroLamports:
+      row.priority_fee_micro_lamports === null ? null : Number(row.priority_fee_micro_lamports),
+    routingReasons: row.routing_reasons ? JSON.parse(String(row.routing_reasons)) : null,
     createdAtMs: Number(row.created_at_ms),
     updatedAtMs: Number(row.updated_at_ms)
   };
@@ -61,9 +130,13 @@ export class PgDb implements Db {
       INSERT INTO order_history (
         order_id, order_type, token_in, token_out, amount, slippage_bps,
         status, dex_chosen, executed_price, tx_hash, failure_reason,
-        created_at_ms, updated_at_ms
+        limit_price, expires_at_ms, trigger_price, twap_duration_ms, twap_slices, parent_order_id,
+        quote_id, quoted_price, swap_mode, time_in_force, deadline_ms,
+        exclude_dexes, pinned_dex, routing_objective, priority_fee_micro_lamports, created_at_ms, updated_at_ms
+      )
+      VALUES (
+        $1,$2,$3,$4,$5,$6,$7,NULL,NULL,NULL,NULL,$8,$9,$10,$11,$12,$13,$14,$15,$16,$17,$18,$19,$20,$21,$22,$23,$24
       )
-      VALUES ($1,$2,$3,$4,$5,$6,$7,NULL,NULL,NULL,NULL,$8,$9)
       ON CONFLICT (order_id) DO NOTHING
       `,
       [
@@ -74,6 +147,21 @@ export class PgDb implements Db {
         order.amount,
         order.slippageBps,
         'pending',
+        order.limitPrice ?? null,
+        order.expiresAtMs ?? null,
+        order.triggerPrice ?? null,
+        order.twapDurationMs ?? null,
+        order.twapSlices ?? null,
+        order.parentOrderId ?? null,
+        order.quoteId ?? null,
+        order.quotedPrice ?? null,
+        order.swapMode ?? 'exact_in',
+        order.timeInForce ?? 'gtc',
+        order.deadlineMs ?? null,
+        order.excludeDexes ? JSON.stringify(order.excludeDexes) : null,
+        order.pinnedDex ?? null,
+        order.routingObjective ?? 'best_price',
+        order.priorityFeeMicroLamports ?? null,
         order.createdAtMs,
         order.createdAtMs
       ]
@@ -85,8 +173,13 @@ export class PgDb implements Db {
     dex: string;
     executedPrice: number;
     txHash: string;
+    amountIn: number;
+    amountOut: number;
+    legs: OrderLeg[];
     updatedAtMs: number;
   }): Promise<void> {
+    // Legs go in first so a confirmed row always has its fills; a retried finalize keeps the original legs.
+    await this.insertLegs(result.orderId, result.legs);
     await this.pool.query(
       `
       UPDATE order_history
@@ -94,15 +187,57 @@ export class PgDb implements Db {
           dex_chosen = $2,
           executed_price = $3,
           tx_hash = $4,
+          amount_in = $5,
+          amount_out = $6,
           failure_reason = NULL,
-          updated_at_ms = $5
+          updated_at_ms = $7
       WHERE order_id = $1
       `,
-      [result.orderId, result.dex, result.executedPrice, result.txHash, result.updatedAtMs]
+      [
+        result.orderId,
+        result.dex,
+        result.executedPrice,
+        result.txHash,
+        result.amountIn,
+        result.amountOut,
+        result.updatedAtMs
+      ]
     );
   }
 
-  public async failOrder(result: { orderId: string; failureReason: string; updatedAtMs: number }): Promise<void> {
+  private async insertLegs(orderId: string, legs: OrderLeg[]): Promise<void> {
+    for (const [legIndex, leg] of legs.entries()) {
+      await this.pool.query(
+        `
+        INSERT INTO order_legs (
+          order_id, leg_index, dex, token_in, token_out, amount, executed_price, tx_hash, amount_in, amount_out
+        )
+        VALUES ($1,$2,$3,$4,$5,$6,$7,$8,$9,$10)
+        ON CONFLICT (order_id, leg_index) DO NOTHING
+        `,
+        [
+          orderId,
+          legIndex,
+          leg.dex,
+          leg.tokenIn,
+          leg.tokenOut,
+          leg.amount,
+          leg.executedPrice,
+          leg.txHash,
+          leg.amountIn,
+          leg.amountOut
+        ]
+      );
+    }
+  }
+
+  public async failOrder(result: {
+    orderId: string;
+    failureReason: string;
+    legs?: OrderLeg[];
+    updatedAtMs: number;
+  }): Promise<void> {
+    await this.insertLegs(result.orderId, result.legs ?? []);
     await this.pool.query(
       `
       UPDATE order_history
@@ -115,12 +250,173 @@ export class PgDb implements Db {
     );
   }
 
+  public async expireOrder(result: { orderId: string; reason: string; updatedAtMs: number }): Promise<void> {
+    await this.pool.query(
+      `
+      UPDATE order_history
+      SET status = 'expired',
+          failure_reason = $2,
+          updated_at_ms = $3
+      WHERE order_id = $1
+      `,
+      [result.orderId, result.reason, result.updatedAtMs]
+    );
+  }
+
+  public async completeOrder(result: { orderId: string; averagePrice: number; updatedAtMs: number }): Promise<void> {
+    await this.pool.query(
+      `
+      UPDATE order_history
+      SET status = 'completed',
+          executed_price = $2,
+          updated_at_ms = $3
+      WHERE order_id = $1
+      `,
+      [result.orderId, result.averagePrice, result.updatedAtMs]
+    );
+  }
+
+  public async cancelOrder(result: { orderId: string; updatedAtMs: number }): Promise<void> {
+    await this.pool.query(
+      `
+      UPDATE order_history
+      SET status = 'cancelled',
+          updated_at_ms = $2
+      WHERE order_id = $1
+      `,
+      [result.orderId, result.updatedAtMs]
+    );
+  }
+
+  public async amendOrder(result: {
+    orderId: string;
+    amount: number;
+    slippageBps: number;
+    updatedAtMs: number;
+  }): Promise<void> {
+    await this.pool.query(
+      `
+      UPDATE order_history
+      SET amount = $2,
+          slippage_bps = $3,
+          updated_at_ms = $4
+      WHERE order_id = $1
+      `,
+      [result.orderId, result.amount, result.slippageBps, result.updatedAtMs]
+    );
+  }
+
+  public async recordRoutingReasons(result: {
+    orderId: string;
+    reasons: VenueRoutingReason[];
+    updatedAtMs: number;
+  }): Promise<void> {
+    await this.pool.query(
+      `
+      UPDATE order_history
+      SET routing_reasons = $2,
+          updated_at_ms = $3
+      WHERE order_id = $1
+      `,
+      [result.orderId, JSON.stringify(result.reasons), result.updatedAtMs]
+    );
+  }
+
   public async getOrder(orderId: string): Promise<OrderFinalRecord | null> {
     const res = await this.pool.query(`SELECT * FROM order_history WHERE order_id = $1`, [orderId]);
     if (res.rows.length === 0) return null;
     return mapRowToOrder(res.rows[0]);
   }
 
+  public async listOrderLegs(orderId: string): Promise<OrderLeg[]> {
+    // Legs recorded before multi-hop routing carry no pair of their own; they traded the order's pair.
+    const res = await this.pool.query(
+      `
+      SELECT l.*, COALESCE(l.token_in, o.token_in) AS leg_token_in, COALESCE(l.token_out, o.token_out) AS leg_token_out
+      FROM order_legs l
+      JOIN order_history o ON o.order_id = l.order_id
+      WHERE l.order_id = $1
+      ORDER BY l.leg_index ASC
+      `,
+      [orderId]
+    );
+    return res.rows.map((row: any) => ({
+      dex: String(row.dex),
+      tokenIn: String(row.leg_token_in),
+      tokenOut: String(row.leg_token_out),
+      amount: Number(row.amount),
+      executedPrice: Number(row.executed_price),
+      txHash: String(row.tx_hash),
+      amountIn: Number(row.amount_in),
+      amountOut: Number(row.amount_out)
+    }));
+  }
+
+  public async listChildOrders(parentOrderId: string): Promise<OrderFinalRecord[]> {
+    const res = await this.pool.query(
+      `SELECT * FROM order_history WHERE parent_order_id = $1 ORDER BY created_at_ms ASC, order_id ASC`,
+      [parentOrderId]
+    );
+    return res.rows.map(mapRowToOrder);
+  }
+
+  public async searchOrders(query: OrderSearchQuery): Promise<OrderFinalRecord[]> {
+    const where: string[] = [];
+    const params: unknown[] = [];
+    const param = (value: unknown): string => {
+      params.push(value);
+      return `$${params.length}`;
+    };
+
+    if (query.status !== undefined) where.push(`status = ${param(query.status)}`);
+    if (query.tokenIn !== undefined) where.push(`token_in = ${param(query.tokenIn)}`);
+    if (query.tokenOut !== undefined) where.push(`token_out = ${param(query.tokenOut)}`);
+    if (query.dexChosen !== undefined) where.push(`dex_chosen = ${param(query.dexChosen)}`);
+    if (query.createdFromMs !== undefined) where.push(`created_at_ms >= ${param(query.createdFromMs)}`);
+    if (query.createdToMs !== undefined) where.push(`created_at_ms < ${param(query.createdToMs)}`);
+    if (query.after !== undefined) {
+      const createdAt = param(query.after.createdAtMs);
+      const orderId = param(query.after.orderId);
+      // Row-value comparison `(a, b) < (x, y)` is not supported by pg-mem, so spell the keyset out.
+      where.push(`(created_at_ms < ${createdAt} OR (created_at_ms = ${createdAt} AND order_id < ${orderId}))`);
+    }
+
+    const res = await this.pool.query(
+      `
+      SELECT * FROM order_history
+      ${where.length > 0 ? `WHERE ${where.join(' AND ')}` : ''}
+      ORDER BY created_at_ms DESC, order_id DESC
+      LIMIT ${param(query.limit)}
+      `,
+      params
+    );
+    return res.rows.map(mapRowToOrder);
+  }
+
+  public async claimIdempotencyKey(record: IdempotencyRecord): Promise<IdempotencyRecord> {
+    await this.pool.query(
+      `
+      INSERT INTO idempotency_keys (idempotency_key, order_id, request_hash, response, created_at_ms)
+      VALUES ($1,$2,$3,$4,$5)
+      ON CONFLICT (idempotency_key) DO NOTHING
+      `,
+      [record.key, record.orderId, record.requestHash, JSON.stringify(record.response), record.createdAtMs]
+    );
+    const res = await this.pool.query(`SELECT * FROM idempotency_keys WHERE idempotency_key = $1`, [record.key]);
+    const row = res.rows[0];
+    return {
+      key: String(row.idempotency_key),
+      orderId: String(row.order_id),
+      requestHash: String(row.request_hash),
+      response: JSON.parse(String(row.response)),
+      createdAtMs: Number(row.created_at_ms)
+    };
+  }
+
+  public async releaseIdempotencyKey(key: string, orderId: string): Promise<void> {
+    await this.pool.query(`DELETE FROM idempotency_keys WHERE idempotency_key = $1 AND order_id = $2`, [key, orderId]);
+  }
+
   public async close(): Promise<void> {
     await this.pool.end();
   }
@@ -151,19 +447,76 @@ export class PgMemDb implements Db {
     dex: string;
     executedPrice: number;
     txHash: string;
+    amountIn: number;
+    amountOut: number;
+    legs: OrderLeg[];
     updatedAtMs: number;
   }): Promise<void> {
     await this.inner.finalizeOrder(result);
   }
 
-  public async failOrder(result: { orderId: string; failureReason: string; updatedAtMs: number }): Promise<void> {
+  public async failOrder(result: {
+    orderId: string;
+    failureReason: string;
+    legs?: OrderLeg[];
+    updatedAtMs: number;
+  }): Promise<void> {
     await this.inner.failOrder(result);
   }
 
+  public async expireOrder(result: { orderId: string; reason: string; updatedAtMs: number }): Promise<void> {
+    await this.inner.expireOrder(result);
+  }
+
+  public async completeOrder(result: { orderId: string; averagePrice: number; updatedAtMs: number }): Promise<void> {
+    await this.inner.completeOrder(result);
+  }
+
+  public async cancelOrder(result: { orderId: string; updatedAtMs: number }): Promise<void> {
+    await this.inner.cancelOrder(result);
+  }
+
+  public async amendOrder(result: {
+    orderId: string;
+    amount: number;
+    slippageBps: number;
+    updatedAtMs: number;
+  }): Promise<void> {
+    await this.inner.amendOrder(result);
+  }
+
+  public async recordRoutingReasons(result: {
+    orderId: string;
+    reasons: VenueRoutingReason[];
+    updatedAtMs: number;
+  }): Promise<void> {
+    await this.inner.recordRoutingReasons(result);
+  }
+
   public async getOrder(orderId: string): Promise<OrderFinalRecord | null> {
     return await this.inner.getOrder(orderId);
   }
 
+  public async listOrderLegs(orderId: string): Promise<OrderLeg[]> {
+    return await this.inner.listOrderLegs(orderId);
+  }
+
+  public async listChildOrders(parentOrderId: string): Promise<OrderFinalRecord[]> {
+    return await this.inner.listChildOrders(parentOrderId);
+  }
+
+  public async searchOrders(query: OrderSearchQuery): Promise<OrderFinalRecord[]> {
+    return await this.inner.searchOrders(query);
+  }
+
+  public async claimIdempotencyKey(record: IdempotencyRecord): Promise<IdempotencyRecord> {
+    return await this.inner.claimIdempotencyKey(record);
+  }
+
+  public async releaseIdempotencyKey(key: string, orderId: string): Promise<void> {
+    await this.inner.releaseIdempotencyKey(key, orderId);
+  }
+
   public async close(): Promise<void> {
     await this.inner.close();
   }
@@ -0,0 +1,235 @@
+import { v4 as uuidv4 } from 'uuid';
+import type {
+  DexAdapter,
+  DexName,
+  DexQuote,
+  Order,
+  QuoteRequest,
+  SwapExecutionResult,
+  SwapLimits
+} from '../types';
+import { DexRegistry } from './dexRegistry';
+import {
+  assertWithinLimits,
+  expectedProfileLatencyMs,
+  maybeFail,
+  MOCK_DEX_PROFILES,
+  simulateLatency,
+  simulateSwapLatency,
+  stableReferencePrice,
+  type MockDexProfile
+} from './mockDexAdapter';
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+export interface PoolReserves {
+  tokenA: string;
+  tokenB: string;
+  reserveA: number;
+  reserveB: number;
+}
+
+export type ConstantProductProfile = Pick<
+  MockDexProfile,
+  | 'name'
+  | 'feeRate'
+  | 'quoteLatencyMs'
+  | 'quoteJitterMs'
+  | 'swapLatencyMs'
+  | 'swapJitterMs'
+  | 'priceBias'
+  | 'quoteFailureRate'
+  | 'swapFailureRate'
+  | 'computeUnits'
+> & {
+  /**
+   * Reference value (see `stableReferencePrice`) on each side of pools seeded for pairs without configured reserves.
+   */
+  defaultDepth: number;
+};
+
+/**
+ * Venue depths relative to each other: Raydium deepest, the Phoenix mock thinnest.
+ */
+export const DEFAULT_POOL_DEPTHS: Record<string, number> = {
+  raydium: 500_000,
+  meteora: 250_000,
+  orca: 300_000,
+  phoenix: 100_000
+};
+
+export class InsufficientLiquidityError extends Error {
+  public constructor(dex: DexName, tokenIn: string, tokenOut: string) {
+    super(`Insufficient liquidity on ${dex} for ${tokenIn}→${tokenOut}`);
+    this.name = 'InsufficientLiquidityError';
+  }
+}
+
+function poolKey(a: string, b: string): string {
+  return a < b ? `${a}/${b}` : `${b}/${a}`;
+}
+
+/**
+ * Mock venue backed by x·y=k pools. Quotes read the current reserves and every executed swap moves them, so
+ * orders pay real price impact and later orders see the liquidity earlier ones consumed. The fee stays in the
+ * pool, as on a real AMM.
+ */
+export class ConstantProductDexAdapter implements DexAdapter {
+  public readonly name: DexName;
+  public readonly feeRate: number;
+  private readonly profile: ConstantProductProfile;
+  private readonly pools = new Map<string, PoolReserves>();
+  private readonly rand: () => number;
+  private readonly sleepFn: (ms: number) => Promise<void>;
+
+  public constructor(opts: {
+    profile: ConstantProductProfile;
+    pools?: PoolReserves[];
+    random?: () => number;
+    sleepFn?: (ms: number) => Promise<void>;
+  }) {
+    this.profile = opts.profile;
+    this.name = opts.profile.name;
+    this.feeRate = opts.profile.feeRate;
+    this.rand = opts.random ?? Math.random;
+    this.sleepFn = opts.sleepFn ?? sleep;
+    for (const pool of opts.pools ?? []) this.setReserves(pool);
+  }
+
+  public get expectedLatencyMs(): number {
+    return expectedProfileLatencyMs(this.profile);
+  }
+
+  public get computeUnits(): number | undefined {
+    return this.profile.computeUnits;
+  }
+
+  public setReserves(pool: PoolReserves): void {
+    if (!(pool.reserveA > 0) || !(pool.reserveB > 0)) {
+      throw new Error(`Pool reserves must be positive: ${pool.tokenA}/${pool.tokenB}`);
+    }
+    this.pools.set(poolKey(pool.tokenA, pool.tokenB), { ...pool });
+  }
+
+  /**
+   * Current reserves oriented as [tokenIn, tokenOut]. Pairs without configured reserves are seeded on first use
+   * at the reference price with the venue's default depth.
+   */
+  public getReserves(tokenIn: string, tokenOut: string): [number, number] {
+    const key = poolKey(tokenIn, tokenOut);
+    let pool = this.pools.get(key);
+    if (!pool) {
+      const depth = this.profile.defaultDepth;
+      pool = {
+        tokenA: tokenIn,
+        tokenB: tokenOut,
+        reserveA: depth / stableReferencePrice(tokenIn),
+        reserveB: depth / stableReferencePrice(tokenOut)
+      };
+      this.pools.set(key, pool);
+    }
+    return pool.tokenA === tokenIn ? [pool.reserveA, pool.reserveB] : [pool.reserveB, pool.reserveA];
+  }
+
+  private applySwap(tokenIn: string, tokenOut: string, amountIn: number, amountOut: number): void {
+    const pool = this.pools.get(poolKey(tokenIn, tokenOut)) as PoolReserves;
+    if (pool.tokenA === tokenIn) {
+      pool.reserveA += amountIn;
+      pool.reserveB -= amountOut;
+    } else {
+      pool.reserveB += amountIn;
+      pool.reserveA -= amountOut;
+    }
+  }
+
+  /**
+   * Both sides of a swap at the current reserves, or null when the pool cannot deliver the output. A price bias
+   * scales the output the curve gives for an input, in either direction.
+   */
+  private simulate(request: QuoteRequest): { amountIn: number; amountOut: number } | null {
+    const [reserveIn, reserveOut] = this.getReserves(request.tokenIn, request.tokenOut);
+    const keep = 1 - this.feeRate;
+    const bias = this.profile.priceBias ?? 1;
+    if (request.swapMode === 'exact_out') {
+      const curveOut = request.amount / bias;
+      if (curveOut >= reserveOut) return null;
+      const amountIn = (reserveIn * curveOut) / ((reserveOut - curveOut) * keep);
+      return { amountIn, amountOut: request.amount };
+    }
+    const amountInAfterFee = request.amount * keep;
+    const amountOut = ((reserveOut * amountInAfterFee) / (reserveIn + amountInAfterFee)) * bias;
+    return amountOut < reserveOut ? { amountIn: request.amount, amountOut } : null;
+  }
+
+  private toQuote(request: QuoteRequest): DexQuote {
+    const swap = this.simulate(request);
+    // An amount the pool cannot cover prices at zero, so the router never picks this venue for it.
+    const effectivePrice = swap ? swap.amountOut / swap.amountIn : 0;
+    return {
+      dex: this.name,
+      amount: request.amount,
+      price: effectivePrice / (1 - this.feeRate),
+      feeRate: this.feeRate,
+      effectivePrice
+    };
+  }
+
+  public async getQuote(request: QuoteRequest): Promise<DexQuote> {
+    await simulateLatency(this.rand, this.sleepFn, this.profile.quoteLatencyMs, this.profile.quoteJitterMs);
+    maybeFail(this.rand, this.profile.quoteFailureRate, this.name, 'quote');
+    return this.toQuote(request);
+  }
+
+  public quoteAtSize(_quote: DexQuote, request: QuoteRequest): DexQuote {
+    return this.toQuote(request);
+  }
+
+  public async executeSwap(order: Order, _quotedPrice: number, limits?: SwapLimits): Promise<SwapExecutionResult> {
+    await simulateSwapLatency(this.rand, this.sleepFn, this.profile, order);
+    maybeFail(this.rand, this.profile.swapFailureRate, this.name, 'swap');
+
+    // Priced at execution time: swaps that landed since the quote have already moved the pool.
+    const swap = this.simulate(order);
+    if (!swap) throw new InsufficientLiquidityError(this.name, order.tokenIn, order.tokenOut);
+    const executedPrice = swap.amountOut / swap.amountIn / (1 - this.feeRate);
+    // Checked before the pool moves, so a rejected swap leaves the reserves as they were.
+    assertWithinLimits(this.name, limits, executedPrice, swap.amountIn);
+    this.applySwap(order.tokenIn, order.tokenOut, swap.amountIn, swap.amountOut);
+
+    return {
+      dex: this.name,
+      executedPrice,
+      txHash: `mocktx_${uuidv4().replace(/-/g, '')}`,
+      ...swap
+    };
+  }
+}
+
+/**
+ * Registry of constant-product venues, one per mock profile (fees, latencies and any scenario overrides). `pools`
+ * configures reserves per venue; any other pair is seeded at the reference price on first use.
+ */
+export function createConstantProductDexRegistry(
+  opts: {
+    pools?: Partial<Record<DexName, PoolReserves[]>>;
+    depths?: Partial<Record<DexName, number>>;
+    profiles?: MockDexProfile[];
+    random?: () => number;
+    randomFor?: (dex: DexName) => () => number;
+    sleepFn?: (ms: number) => Promise<void>;
+  } = {}
+): DexRegistry {
+  return new DexRegistry(
+    (opts.profiles ?? MOCK_DEX_PROFILES).map(
+      ({ varianceMin: _min, varianceRange: _range, ...profile }) =>
+        new ConstantProductDexAdapter({
+          profile: { ...profile, defaultDepth: opts.depths?.[profile.name] ?? DEFAULT_POOL_DEPTHS[profile.name] },
+          pools: opts.pools?.[profile.name],
+          random: opts.randomFor?.(profile.name) ?? opts.random,
+          sleepFn: opts.sleepFn
+        })
+    )
+  );
+}
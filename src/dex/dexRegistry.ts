@@ -0,0 +1,37 @@
+import type { DexAdapter, DexName } from '../types';
+
+export class DexRegistry {
+  private readonly adapters = new Map<DexName, DexAdapter>();
+
+  public constructor(adapters: DexAdapter[] = []) {
+    for (const adapter of adapters) this.register(adapter);
+  }
+
+  public register(adapter: DexAdapter): void {
+    if (this.adapters.has(adapter.name)) {
+      throw new Error(`DEX adapter already registered: ${adapter.name}`);
+    }
+    this.adapters.set(adapter.name, adapter);
+  }
+
+  public get(name: DexName): DexAdapter {
+    const adapter = this.adapters.get(name);
+    if (!adapter) throw new Error(`Unknown DEX: ${name}`);
+    return adapter;
+  }
+
+  public has(name: DexName): boolean {
+    return this.adapters.has(name);
+  }
+
+  /**
+   * Adapters in registration order.
+   */
+  public list(): DexAdapter[] {
+    return [...this.adapters.values()];
+  }
+
+  public names(): DexName[] {
+    return [...this.adapters.keys()];
+  }
+}
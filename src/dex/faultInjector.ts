@@ -0,0 +1,181 @@
+import { v4 as uuidv4 } from 'uuid';
+import type {
+  DexAdapter,
+  DexName,
+  DexQuote,
+  Logger,
+  Order,
+  QuoteRequest,
+  SwapExecutionResult,
+  SwapLimits
+} from '../types';
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+export const FAULT_KINDS = ['quote_timeout', 'swap_revert', 'partial_fill', 'latency_spike', 'price_gap'] as const;
+export type FaultKind = (typeof FAULT_KINDS)[number];
+
+/**
+ * Parameter defaults for faults injected without one.
+ */
+export const DEFAULT_QUOTE_TIMEOUT_MS = 5_000;
+export const DEFAULT_LATENCY_SPIKE_MS = 3_000;
+export const DEFAULT_FILL_RATIO = 0.5;
+export const DEFAULT_PRICE_GAP_BPS = 200;
+
+export interface FaultSpec {
+  dex: DexName;
+  kind: FaultKind;
+  /**
+   * Chance that a matching request is hit (default 1).
+   */
+  probability?: number;
+  /**
+   * Number of hits after which the fault clears itself; unlimited when omitted.
+   */
+  remaining?: number;
+  /**
+   * quote_timeout: how long the quote hangs before failing.
+   */
+  timeoutMs?: number;
+  /**
+   * latency_spike: delay added to each quote and swap on the venue.
+   */
+  delayMs?: number;
+  /**
+   * partial_fill: share of the requested amount that fills, in (0, 1).
+   */
+  fillRatio?: number;
+  /**
+   * price_gap: how far the execution price gaps below the quote.
+   */
+  gapBps?: number;
+}
+
+export interface InjectedFault extends FaultSpec {
+  faultId: string;
+  createdAtMs: number;
+  hits: number;
+}
+
+export class QuoteTimeoutError extends Error {
+  public constructor(dex: DexName, timeoutMs: number) {
+    super(`Quote from ${dex} timed out after ${timeoutMs}ms`);
+    this.name = 'QuoteTimeoutError';
+  }
+}
+
+export class SwapRevertedError extends Error {
+  public constructor(dex: DexName) {
+    super(`Swap on ${dex} reverted`);
+    this.name = 'SwapRevertedError';
+  }
+}
+
+/**
+ * Runtime faults for the mock venues, injected through the admin API. The router sends every quote and swap
+ * through here; faults whose venue and operation match may fire, and each firing is logged as `fault.triggered`.
+ */
+export class FaultInjector {
+  private readonly logger: Logger;
+  private readonly rand: () => number;
+  private readonly sleepFn: (ms: number) => Promise<void>;
+  private readonly faults = new Map<string, InjectedFault>();
+
+  public constructor(opts: { logger: Logger; random?: () => number; sleepFn?: (ms: number) => Promise<void> }) {
+    this.logger = opts.logger;
+    this.rand = opts.random ?? Math.random;
+    this.sleepFn = opts.sleepFn ?? sleep;
+  }
+
+  public inject(spec: FaultSpec): InjectedFault {
+    const fault: InjectedFault = { ...spec, faultId: uuidv4(), createdAtMs: Date.now(), hits: 0 };
+    this.faults.set(fault.faultId, fault);
+    this.logger.warn('fault.injected', { ...fault });
+    return { ...fault };
+  }
+
+  /**
+   * Active faults in injection order.
+   */
+  public list(): InjectedFault[] {
+    return [...this.faults.values()].map((f) => ({ ...f }));
+  }
+
+  public clear(faultId: string): boolean {
+    const fault = this.faults.get(faultId);
+    if (!fault) return false;
+    this.faults.delete(faultId);
+    this.logger.info('fault.cleared', { faultId, dex: fault.dex, kind: fault.kind, hits: fault.hits });
+    return true;
+  }
+
+  public clearAll(): number {
+    const count = this.faults.size;
+    this.faults.clear();
+    this.logger.info('fault.cleared_all', { count });
+    return count;
+  }
+
+  /**
+   * First active fault of `kind` on `dex` that fires for this request. Firing counts against `remaining`.
+   */
+  private fire(dex: DexName, kind: FaultKind, context: Record<string, unknown>): InjectedFault | undefined {
+    for (const fault of this.faults.values()) {
+      if (fault.dex !== dex || fault.kind !== kind) continue;
+      if (fault.probability !== undefined && this.rand() >= fault.probability) continue;
+
+      fault.hits++;
+      if (fault.remaining !== undefined && --fault.remaining <= 0) this.faults.delete(fault.faultId);
+      this.logger.warn('fault.triggered', { faultId: fault.faultId, dex, kind, hits: fault.hits, ...context });
+      return fault;
+    }
+    return undefined;
+  }
+
+  private async spike(dex: DexName, context: Record<string, unknown>): Promise<void> {
+    const fault = this.fire(dex, 'latency_spike', context);
+    if (fault) await this.sleepFn(fault.delayMs ?? DEFAULT_LATENCY_SPIKE_MS);
+  }
+
+  public async quote(adapter: DexAdapter, request: QuoteRequest): Promise<DexQuote> {
+    const context = { operation: 'quote', tokenIn: request.tokenIn, tokenOut: request.tokenOut };
+    await this.spike(adapter.name, context);
+    const timeout = this.fire(adapter.name, 'quote_timeout', context);
+    if (timeout) {
+      const timeoutMs = timeout.timeoutMs ?? DEFAULT_QUOTE_TIMEOUT_MS;
+      await this.sleepFn(timeoutMs);
+      throw new QuoteTimeoutError(adapter.name, timeoutMs);
+    }
+    return await adapter.getQuote(request);
+  }
+
+  public async swap(
+    adapter: DexAdapter,
+    order: Order,
+    quotedPrice: number,
+    limits?: SwapLimits
+  ): Promise<SwapExecutionResult> {
+    const context = { operation: 'swap', orderId: order.orderId, tokenIn: order.tokenIn, tokenOut: order.tokenOut };
+    await this.spike(adapter.name, context);
+    if (this.fire(adapter.name, 'swap_revert', context)) throw new SwapRevertedError(adapter.name);
+
+    // A partial fill executes only part of the order, so a stateful venue moves by what actually filled.
+    const partial = this.fire(adapter.name, 'partial_fill', context);
+    const amount = partial ? order.amount * (partial.fillRatio ?? DEFAULT_FILL_RATIO) : order.amount;
+    const exec = await adapter.executeSwap({ ...order, amount }, quotedPrice, limits);
+
+    const gap = this.fire(adapter.name, 'price_gap', context);
+    if (!gap) return exec;
+    const factor = 1 - (gap.gapBps ?? DEFAULT_PRICE_GAP_BPS) / 10_000;
+    return {
+      ...exec,
+      executedPrice: exec.executedPrice * factor,
+      ...(order.swapMode === 'exact_out'
+        ? { amountIn: exec.amountIn / factor }
+        : { amountOut: exec.amountOut * factor })
+    };
+  }
+}
@@ -0,0 +1,285 @@
+import { v4 as uuidv4 } from 'uuid';
+import type {
+  DexAdapter,
+  DexName,
+  DexQuote,
+  Order,
+  QuoteRequest,
+  SwapExecutionResult,
+  SwapLimits
+} from '../types';
+import { DexRegistry } from './dexRegistry';
+import { inclusionLatencyFactor } from './networkFees';
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+function clamp(n: number, min: number, max: number): number {
+  return Math.max(min, Math.min(max, n));
+}
+
+export function stableReferencePrice(token: string): number {
+  let sum = 0;
+  for (let i = 0; i < token.length; i++) sum = (sum + token.charCodeAt(i) * (i + 1)) % 10_000;
+  // 0.75 .. 1.25
+  return 0.75 + (sum / 10_000) * 0.5;
+}
+
+/**
+ * Ratio of per-token reference prices, so compounding quotes along any path lands near the direct price.
+ */
+function stableBasePrice(tokenIn: string, tokenOut: string): number {
+  return stableReferencePrice(tokenIn) / stableReferencePrice(tokenOut);
+}
+
+/**
+ * Amount impacts slippage-like behavior slightly in a stable way.
+ */
+function amountFactor(amount: number): number {
+  return clamp(1 - amount * 0.00001, 0.9, 1);
+}
+
+export interface MockDexProfile {
+  name: DexName;
+  feeRate: number;
+  /**
+   * Quoted price is the pair's base price times a variance in [varianceMin, varianceMin + varianceRange].
+   */
+  varianceMin: number;
+  varianceRange: number;
+  /**
+   * Quotes take quoteLatencyMs plus up to quoteJitterMs.
+   */
+  quoteLatencyMs: number;
+  quoteJitterMs?: number;
+  /**
+   * Swap execution takes swapLatencyMs plus up to swapJitterMs.
+   */
+  swapLatencyMs: number;
+  swapJitterMs: number;
+  /**
+   * Multiplies every price the venue quotes or fills at (1 = unbiased).
+   */
+  priceBias?: number;
+  /**
+   * Probability that a quote or swap request fails with SimulatedVenueError.
+   */
+  quoteFailureRate?: number;
+  swapFailureRate?: number;
+  /**
+   * Compute units one swap consumes; the priority fee is charged on these.
+   */
+  computeUnits?: number;
+}
+
+/**
+ * Mean time from quote to landed swap for a profile.
+ */
+export function expectedProfileLatencyMs(
+  profile: Pick<MockDexProfile, 'quoteLatencyMs' | 'quoteJitterMs' | 'swapLatencyMs' | 'swapJitterMs'>
+): number {
+  return profile.quoteLatencyMs + (profile.quoteJitterMs ?? 0) / 2 + profile.swapLatencyMs + profile.swapJitterMs / 2;
+}
+
+export class SimulatedVenueError extends Error {
+  public constructor(dex: DexName, operation: 'quote' | 'swap') {
+    super(`Simulated ${operation} failure on ${dex}`);
+    this.name = 'SimulatedVenueError';
+  }
+}
+
+/**
+ * Waits out a latency of `baseMs` plus up to `jitterMs`. Zero jitter draws no randomness, so profiles without it
+ * leave the random sequence untouched.
+ */
+export async function simulateLatency(
+  rand: () => number,
+  sleepFn: (ms: number) => Promise<void>,
+  baseMs: number,
+  jitterMs: number = 0
+): Promise<void> {
+  await sleepFn(baseMs + (jitterMs > 0 ? Math.floor(rand() * jitterMs) : 0));
+}
+
+/**
+ * Waits out a swap's inclusion latency, which the order's priority fee shortens.
+ */
+export async function simulateSwapLatency(
+  rand: () => number,
+  sleepFn: (ms: number) => Promise<void>,
+  profile: Pick<MockDexProfile, 'swapLatencyMs' | 'swapJitterMs'>,
+  order: Order
+): Promise<void> {
+  const factor = inclusionLatencyFactor(order.priorityFeeMicroLamports);
+  await simulateLatency(rand, sleepFn, profile.swapLatencyMs * factor, profile.swapJitterMs * factor);
+}
+
+/**
+ * Throws SimulatedVenueError with the given probability. A zero rate draws no randomness.
+ */
+export function maybeFail(
+  rand: () => number,
+  rate: number | undefined,
+  dex: DexName,
+  operation: 'quote' | 'swap'
+): void {
+  if (rate && rand() < rate) throw new SimulatedVenueError(dex, operation);
+}
+
+export class SwapLimitExceededError extends Error {
+  public readonly detail: string;
+
+  public constructor(dex: DexName, detail: string) {
+    super(`Swap on ${dex} rejected: ${detail}`);
+    this.name = 'SwapLimitExceededError';
+    this.detail = detail;
+  }
+}
+
+/**
+ * Throws SwapLimitExceededError when a swap at `executedPrice` spending `amountIn` falls outside `limits`.
+ */
+export function assertWithinLimits(
+  dex: DexName,
+  limits: SwapLimits | undefined,
+  executedPrice: number,
+  amountIn: number
+): void {
+  if (limits?.minPrice !== undefined && executedPrice < limits.minPrice) {
+    throw new SwapLimitExceededError(dex, `executedPrice ${executedPrice} below minimum ${limits.minPrice}`);
+  }
+  if (limits?.maxAmountIn !== undefined && amountIn > limits.maxAmountIn) {
+    throw new SwapLimitExceededError(dex, `amountIn ${amountIn} above maximum ${limits.maxAmountIn}`);
+  }
+}
+
+export const MOCK_DEX_PROFILES: MockDexProfile[] = [
+  {
+    name: 'raydium',
+    feeRate: 0.003,
+    varianceMin: 0.98, // ~ +/-2%
+    varianceRange: 0.04,
+    quoteLatencyMs: 200,
+    swapLatencyMs: 2000,
+    swapJitterMs: 1000,
+    computeUnits: 80_000
+  },
+  {
+    name: 'meteora',
+    feeRate: 0.002,
+    varianceMin: 0.97, // ~ -3%..+2% (often different from Raydium)
+    varianceRange: 0.05,
+    quoteLatencyMs: 200,
+    swapLatencyMs: 2000,
+    swapJitterMs: 1000,
+    computeUnits: 120_000
+  },
+  {
+    // Concentrated liquidity: a mid-range fee and a slightly faster path to landing.
+    name: 'orca',
+    feeRate: 0.0025,
+    varianceMin: 0.975,
+    varianceRange: 0.045,
+    quoteLatencyMs: 150,
+    swapLatencyMs: 1500,
+    swapJitterMs: 1000,
+    computeUnits: 140_000
+  },
+  {
+    // Order book: lowest taker fee and latency, but thinner books quote a little worse on average.
+    name: 'phoenix',
+    feeRate: 0.001,
+    varianceMin: 0.965,
+    varianceRange: 0.045,
+    quoteLatencyMs: 100,
+    swapLatencyMs: 1000,
+    swapJitterMs: 500,
+    computeUnits: 50_000
+  }
+];
+
+export class MockDexAdapter implements DexAdapter {
+  public readonly name: DexName;
+  public readonly feeRate: number;
+  private readonly profile: MockDexProfile;
+  private readonly rand: () => number;
+  private readonly sleepFn: (ms: number) => Promise<void>;
+
+  public constructor(opts: {
+    profile: MockDexProfile;
+    random?: () => number;
+    sleepFn?: (ms: number) => Promise<void>;
+  }) {
+    this.profile = opts.profile;
+    this.name = opts.profile.name;
+    this.feeRate = opts.profile.feeRate;
+    this.rand = opts.random ?? Math.random;
+    this.sleepFn = opts.sleepFn ?? sleep;
+  }
+
+  public get expectedLatencyMs(): number {
+    return expectedProfileLatencyMs(this.profile);
+  }
+
+  public get computeUnits(): number | undefined {
+    return this.profile.computeUnits;
+  }
+
+  public async getQuote({ tokenIn, tokenOut, amount }: QuoteRequest): Promise<DexQuote> {
+    await simulateLatency(this.rand, this.sleepFn, this.profile.quoteLatencyMs, this.profile.quoteJitterMs);
+    maybeFail(this.rand, this.profile.quoteFailureRate, this.name, 'quote');
+    const base = stableBasePrice(tokenIn, tokenOut) * (this.profile.priceBias ?? 1);
+    const variance = this.profile.varianceMin + this.rand() * this.profile.varianceRange;
+    const price = base * variance * amountFactor(amount);
+    return { dex: this.name, amount, price, feeRate: this.feeRate, effectivePrice: price * (1 - this.feeRate) };
+  }
+
+  public quoteAtSize(quote: DexQuote, { amount }: QuoteRequest): DexQuote {
+    const price = (quote.price / amountFactor(quote.amount)) * amountFactor(amount);
+    return { dex: this.name, amount, price, feeRate: this.feeRate, effectivePrice: price * (1 - this.feeRate) };
+  }
+
+  public async executeSwap(order: Order, quotedPrice: number, limits?: SwapLimits): Promise<SwapExecutionResult> {
+    await simulateSwapLatency(this.rand, this.sleepFn, this.profile, order);
+    maybeFail(this.rand, this.profile.swapFailureRate, this.name, 'swap');
+
+    // Simulate mild execution price drift relative to quoted price.
+    const drift = 0.995 + this.rand() * 0.01; // -0.5%..+0.5%
+    const executedPrice = quotedPrice * drift;
+    const netPrice = executedPrice * (1 - this.feeRate);
+    const amounts =
+      order.swapMode === 'exact_out'
+        ? { amountIn: order.amount / netPrice, amountOut: order.amount }
+        : { amountIn: order.amount, amountOut: order.amount * netPrice };
+    assertWithinLimits(this.name, limits, executedPrice, amounts.amountIn);
+
+    return {
+      dex: this.name,
+      executedPrice,
+      txHash: `mocktx_${uuidv4().replace(/-/g, '')}`,
+      ...amounts
+    };
+  }
+}
+
+/**
+ * Registry holding one mock adapter per profile, all sharing the given clock. `randomFor` gives each venue its own
+ * random stream and takes precedence over the shared `random`.
+ */
+export function createMockDexRegistry(
+  opts: {
+    random?: () => number;
+    randomFor?: (dex: DexName) => () => number;
+    sleepFn?: (ms: number) => Promise<void>;
+    profiles?: MockDexProfile[];
+  } = {}
+): DexRegistry {
+  const profiles = opts.profiles ?? MOCK_DEX_PROFILES;
+  return new DexRegistry(
+    profiles.map(
+      (profile) =>
+        new MockDexAdapter({ profile, random: opts.randomFor?.(profile.name) ?? opts.random, sleepFn: opts.sleepFn })
+    )
+  );
+}
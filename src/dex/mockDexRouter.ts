@@ -1,90 +1,483 @@
-import { v4 as uuidv4 } from 'uuid';
-import type { DexName, DexQuote, Logger, Order, RoutingDecision, SwapExecutionResult } from '../types';
+import type {
+  DexAdapter,
+  DexName,
+  DexQuote,
+  Logger,
+  Order,
+  QuoteRequest,
+  RouteHop,
+  RoutingDecision,
+  RoutingObjective,
+  SplitRoute,
+  SwapExecutionResult,
+  SwapLimits,
+  VenueRoutingReason
+} from '../types';
+import { DexRegistry } from './dexRegistry';
+import { FaultInjector } from './faultInjector';
+import { createMockDexRegistry, stableReferencePrice } from './mockDexAdapter';
+import {
+  DEFAULT_NETWORK_FEES,
+  DEFAULT_SWAP_COMPUTE_UNITS,
+  lamportsToToken,
+  NETWORK_FEE_TOKEN,
+  networkFeeLamports,
+  type NetworkFeeModel
+} from './networkFees';
+import { QuoteCache } from './quoteCache';
+import { scenarioRegistryOptions, type SimulationScenario } from './scenario';
+import { TokenGraph } from './tokenGraph';
+import { CircuitOpenError, VenueHealth } from './venueHealth';
 
-function sleep(ms: number): Promise<void> {
-  return new Promise((resolve) => setTimeout(resolve, ms));
+/**
+ * Split candidates give each of two venues a multiple of 1/SPLIT_STEPS of the order.
+ */
+export const SPLIT_STEPS = 10;
+
+/**
+ * A split must beat the best single venue by at least this much to be worth the extra transaction.
+ */
+export const SPLIT_MIN_IMPROVEMENT_BPS = 5;
+
+/**
+ * A multi-hop path must beat the direct pair by at least this much to be worth the extra swaps.
+ */
+export const MULTI_HOP_MIN_IMPROVEMENT_BPS = 10;
+
+export class NoRouteError extends Error {
+  public constructor(tokenIn: string, tokenOut: string, detail: string) {
+    super(`No route from ${tokenIn} to ${tokenOut}: ${detail}`);
+    this.name = 'NoRouteError';
+  }
 }
 
-function clamp(n: number, min: number, max: number): number {
-  return Math.max(min, Math.min(max, n));
+/**
+ * Why each venue whose quote failed during one route was left out, by venue.
+ */
+type QuoteFailures = Map<DexName, string>;
+
+/**
+ * Rounds for reason strings, which are read by people.
+ */
+function fmt(n: number): number {
+  return Number(n.toPrecision(6));
 }
 
-function stableBasePrice(tokenIn: string, tokenOut: string): number {
-  const seed = `${tokenIn}→${tokenOut}`;
-  let sum = 0;
-  for (let i = 0; i < seed.length; i++) sum = (sum + seed.charCodeAt(i) * (i + 1)) % 10_000;
-  // 0.75 .. 1.25
-  return 0.75 + (sum / 10_000) * 0.5;
+/**
+ * Compounds the chosen quote of each hop into one quote for the whole path.
+ */
+function compoundQuote(amount: number, hops: RouteHop[]): DexQuote {
+  const price = hops.reduce((p, h) => p * h.chosen.price, 1);
+  const effectivePrice = hops.reduce((p, h) => p * h.chosen.effectivePrice, 1);
+  return {
+    dex: hops.map((h) => h.chosen.dex).join('>'),
+    amount,
+    price,
+    feeRate: 1 - effectivePrice / price,
+    effectivePrice,
+    quotedAtMs: Math.min(...hops.map((h) => h.chosen.quotedAtMs ?? Infinity))
+  };
 }
 
 export class MockDexRouter {
   private readonly logger: Logger;
-  private readonly rand: () => number;
-  private readonly sleepFn: (ms: number) => Promise<void>;
+  public readonly registry: DexRegistry;
+  public readonly graph: TokenGraph;
+  public readonly faults: FaultInjector;
+  public readonly quoteCache: QuoteCache;
+  public readonly venueHealth: VenueHealth;
+  private readonly networkFees: NetworkFeeModel;
 
-  public constructor(opts: { logger: Logger; random?: () => number; sleepFn?: (ms: number) => Promise<void> }) {
+  public constructor(opts: {
+    logger: Logger;
+    random?: () => number;
+    sleepFn?: (ms: number) => Promise<void>;
+    registry?: DexRegistry;
+    graph?: TokenGraph;
+    /**
+     * Seeds and tunes the default registry's venues; ignored when `registry` is given.
+     */
+    scenario?: SimulationScenario;
+    networkFees?: NetworkFeeModel;
+    /**
+     * Shares venue quotes between routes; without one, every route quotes every venue.
+     */
+    quoteCache?: QuoteCache;
+    /**
+     * Times out venue quotes and trips circuit breakers; defaults to the standard timeout and cooldown.
+     */
+    venueHealth?: VenueHealth;
+  }) {
     this.logger = opts.logger;
-    this.rand = opts.random ?? Math.random;
-    this.sleepFn = opts.sleepFn ?? sleep;
+    this.registry =
+      opts.registry ??
+      createMockDexRegistry({
+        random: opts.random,
+        sleepFn: opts.sleepFn,
+        ...(opts.scenario ? scenarioRegistryOptions(opts.scenario) : {})
+      });
+    this.graph = opts.graph ?? new TokenGraph();
+    this.faults = new FaultInjector({ logger: opts.logger, sleepFn: opts.sleepFn });
+    this.networkFees = opts.networkFees ?? DEFAULT_NETWORK_FEES;
+    this.quoteCache = opts.quoteCache ?? new QuoteCache({ ttlMs: 0 });
+    this.venueHealth = opts.venueHealth ?? new VenueHealth({ logger: opts.logger });
+  }
+
+  public async getQuote(dex: DexName, tokenIn: string, tokenOut: string, amount: number): Promise<DexQuote> {
+    const quote = await this.faults.quote(this.registry.get(dex), { tokenIn, tokenOut, amount });
+    return { ...quote, quotedAtMs: Date.now() };
   }
 
-  private async getQuote(dex: DexName, tokenIn: string, tokenOut: string, amount: number): Promise<DexQuote> {
-    await this.sleepFn(200);
-    const base = stableBasePrice(tokenIn, tokenOut);
-    // Amount impacts slippage-like behavior slightly in a stable way.
-    const amountFactor = clamp(1 - amount * 0.00001, 0.9, 1);
+  public async route(order: Order): Promise<RoutingDecision> {
+    if (this.registry.list().length === 0) throw new Error('No DEX adapters registered');
+    const { adapters, skipped, unhealthy } = this.eligibleVenues(order);
+    if (adapters.length === 0) {
+      // Open circuits close again, so this one is worth retrying.
+      if (unhealthy > 0) throw new CircuitOpenError(order.tokenIn, order.tokenOut);
+      const detail =
+        order.pinnedDex !== undefined && !this.registry.has(order.pinnedDex)
+          ? `pinned venue ${order.pinnedDex} is not registered`
+          : 'every venue is excluded by the order';
+      throw new NoRouteError(order.tokenIn, order.tokenOut, detail);
+    }
 
-    if (dex === 'raydium') {
-      const variance = 0.98 + this.rand() * 0.04; // ~ +/-2%
-      const price = base * variance * amountFactor;
-      const feeRate = 0.003;
-      return { dex, price, feeRate, effectivePrice: price * (1 - feeRate) };
+    const objective: RoutingObjective = order.routingObjective ?? 'best_price';
+    const hasDirectPool = this.graph.hasPool(order.tokenIn, order.tokenOut);
+    // exact_out fixes the final output, which is only quotable against a single pool. Extra hops add swaps in
+    // sequence, so lowest_latency takes a path only when there is no direct pool.
+    const paths =
+      order.swapMode === 'exact_out' || (hasDirectPool && objective === 'lowest_latency')
+        ? []
+        : this.graph.paths(order.tokenIn, order.tokenOut).filter((path) => path.length > 2);
+    if (!hasDirectPool && paths.length === 0) {
+      const detail = order.swapMode === 'exact_out' ? 'exact_out orders need a direct pool' : 'no pool path';
+      throw new NoRouteError(order.tokenIn, order.tokenOut, detail);
     }
 
-    const variance = 0.97 + this.rand() * 0.05; // ~ -3%..+2% (often different from Raydium)
-    const price = base * variance * amountFactor;
-    const feeRate = 0.002;
-    return { dex, price, feeRate, effectivePrice: price * (1 - feeRate) };
+    const failures: QuoteFailures = new Map();
+    const [direct, multiHop] = await Promise.all([
+      hasDirectPool ? this.routeDirect(order, adapters, failures) : Promise.resolve(undefined),
+      this.bestMultiHop(order, paths, adapters, failures)
+    ]);
+    const directPrice = direct ? direct.split?.effectivePrice ?? direct.chosen.effectivePrice : 0;
+    const bar = directPrice * (1 + MULTI_HOP_MIN_IMPROVEMENT_BPS / 10_000);
+    let decision: RoutingDecision;
+    if (!multiHop || (direct && multiHop.chosen.effectivePrice <= bar)) {
+      // At least one exists: there is a direct pool, or a path (which always yields a candidate).
+      decision = direct as RoutingDecision;
+    } else {
+      const { chosen, hops } = multiHop;
+      this.logger.info('routing.multi_hop', {
+        orderId: order.orderId,
+        path: [order.tokenIn, ...hops.map((h) => h.tokenOut)],
+        hops: hops.map((h) => ({
+          tokenIn: h.tokenIn,
+          tokenOut: h.tokenOut,
+          dex: h.chosen.dex,
+          amount: h.chosen.amount
+        })),
+        effectivePrice: chosen.effectivePrice,
+        directEffectivePrice: direct ? directPrice : null
+      });
+      decision = { quotes: direct?.quotes ?? [], chosen, hops };
+    }
+
+    const names = this.registry.names();
+    decision.reasons = [...this.explain(order, adapters, decision, failures), ...skipped].sort(
+      (a, b) => names.indexOf(a.dex) - names.indexOf(b.dex)
+    );
+    this.logger.info('routing.decision', {
+      orderId: order.orderId,
+      objective,
+      excludeDexes: order.excludeDexes ?? [],
+      pinnedDex: order.pinnedDex ?? null,
+      failedVenues: [...failures.keys()],
+      quotes: decision.quotes.map((q) => ({
+        dex: q.dex,
+        price: q.price,
+        feeRate: q.feeRate,
+        networkFee: q.networkFee,
+        effectivePrice: q.effectivePrice
+      })),
+      chosen: {
+        dex: decision.chosen.dex,
+        effectivePrice: decision.chosen.effectivePrice,
+        requiredAmountIn: decision.chosen.requiredAmountIn
+      },
+      reasons: decision.reasons
+    });
+    return decision;
   }
 
-  public async getRaydiumQuote(tokenIn: string, tokenOut: string, amount: number): Promise<DexQuote> {
-    return await this.getQuote('raydium', tokenIn, tokenOut, amount);
+  /**
+   * Venues the order's preferences allow and whose circuits are not open, and a reason for each one left out.
+   */
+  private eligibleVenues(order: Order): { adapters: DexAdapter[]; skipped: VenueRoutingReason[]; unhealthy: number } {
+    const adapters: DexAdapter[] = [];
+    const skipped: VenueRoutingReason[] = [];
+    let unhealthy = 0;
+    for (const adapter of this.registry.list()) {
+      const dex = adapter.name;
+      if (order.excludeDexes?.includes(dex)) {
+        skipped.push({ dex, chosen: false, reason: 'excluded by the order' });
+      } else if (order.pinnedDex !== undefined && order.pinnedDex !== dex) {
+        skipped.push({ dex, chosen: false, reason: `order is pinned to ${order.pinnedDex}` });
+      } else {
+        const unavailable = this.venueHealth.unavailableReason(dex);
+        if (unavailable) {
+          skipped.push({ dex, chosen: false, reason: unavailable });
+          unhealthy++;
+        } else {
+          adapters.push(adapter);
+        }
+      }
+    }
+    return { adapters, skipped, unhealthy };
   }
 
-  public async getMeteoraQuote(tokenIn: string, tokenOut: string, amount: number): Promise<DexQuote> {
-    return await this.getQuote('meteora', tokenIn, tokenOut, amount);
+  private expectedLatencyMs(dex: DexName): number {
+    return this.registry.get(dex).expectedLatencyMs ?? Infinity;
   }
 
-  public async route(order: Order): Promise<RoutingDecision> {
-    const [raydium, meteora] = await Promise.all([
-      this.getRaydiumQuote(order.tokenIn, order.tokenOut, order.amount),
-      this.getMeteoraQuote(order.tokenIn, order.tokenOut, order.amount)
-    ]);
+  /**
+   * Best quote under the order's objective. For exact_out orders, also sets each quote's requiredAmountIn.
+   */
+  private pick(order: Order, quotes: DexQuote[]): DexQuote {
+    const exactOut = order.swapMode === 'exact_out';
+    if (exactOut) for (const q of quotes) q.requiredAmountIn = order.amount / q.effectivePrice;
+    // The venue needing the least input wins exact_out; the highest effective price wins exact_in.
+    const cheaper = (a: DexQuote, b: DexQuote): boolean =>
+      exactOut ? (a.requiredAmountIn as number) < (b.requiredAmountIn as number) : a.effectivePrice > b.effectivePrice;
+    if (order.routingObjective !== 'lowest_latency') {
+      return quotes.reduce((best, q) => (cheaper(q, best) ? q : best));
+    }
 
-    const chosen = raydium.effectivePrice >= meteora.effectivePrice ? raydium : meteora;
-    this.logger.info('routing.decision', {
-      orderId: order.orderId,
-      raydium: { price: raydium.price, feeRate: raydium.feeRate, effectivePrice: raydium.effectivePrice },
-      meteora: { price: meteora.price, feeRate: meteora.feeRate, effectivePrice: meteora.effectivePrice },
-      chosen: { dex: chosen.dex, effectivePrice: chosen.effectivePrice }
+    // A venue that cannot fill the order is never the fastest way to fill it.
+    const fillable = quotes.filter((q) => q.effectivePrice > 0);
+    return (fillable.length > 0 ? fillable : quotes).reduce((best, q) => {
+      const latency = this.expectedLatencyMs(q.dex);
+      const bestLatency = this.expectedLatencyMs(best.dex);
+      return latency < bestLatency || (latency === bestLatency && cheaper(q, best)) ? q : best;
     });
+  }
+
+  /**
+   * One entry per eligible venue saying why it was or was not used.
+   */
+  private explain(
+    order: Order,
+    adapters: DexAdapter[],
+    decision: RoutingDecision,
+    failures: QuoteFailures
+  ): VenueRoutingReason[] {
+    const used = new Map<DexName, string>();
+    if (decision.hops) {
+      for (const hop of decision.hops) {
+        const note = `hop ${hop.tokenIn}→${hop.tokenOut}`;
+        const earlier = used.get(hop.chosen.dex);
+        used.set(hop.chosen.dex, earlier ? `${earlier}; ${note}` : note);
+      }
+    } else if (decision.split) {
+      for (const leg of decision.split.legs) {
+        used.set(leg.dex, `split leg: ${fmt((leg.amount / order.amount) * 100)}% of the order`);
+      }
+    } else {
+      used.set(decision.chosen.dex, this.chosenReason(order, adapters, decision.chosen));
+    }
 
-    return { raydium, meteora, chosen };
+    return adapters.map(({ name }) => {
+      const reason = used.get(name);
+      if (reason !== undefined) return { dex: name, chosen: true, reason };
+      // A venue that failed only on some hop of a path still competed on its direct quote.
+      const failure = failures.get(name);
+      if (failure !== undefined && !decision.quotes.some((q) => q.dex === name)) {
+        return { dex: name, chosen: false, reason: `quote failed: ${failure}` };
+      }
+      return { dex: name, chosen: false, reason: this.rejectedReason(order, decision, name) };
+    });
   }
 
-  public async executeSwap(dex: DexName, order: Order, quotedPrice: number): Promise<SwapExecutionResult> {
-    // Simulate 2–3 seconds execution time.
-    await this.sleepFn(2000 + Math.floor(this.rand() * 1000));
+  private chosenReason(order: Order, adapters: DexAdapter[], chosen: DexQuote): string {
+    if (order.pinnedDex !== undefined) return 'pinned by the order';
+    if (adapters.length === 1) return 'only venue the order allows';
+    if (order.routingObjective === 'lowest_latency') {
+      return `lowest expected latency (${this.expectedLatencyMs(chosen.dex)}ms)`;
+    }
+    if (order.swapMode === 'exact_out') return `least input required (${fmt(chosen.requiredAmountIn as number)})`;
+    return `best effective price (${fmt(chosen.effectivePrice)})`;
+  }
 
-    // Simulate mild execution price drift relative to quoted price.
-    const drift = 0.995 + this.rand() * 0.01; // -0.5%..+0.5%
-    const executedPrice = quotedPrice * drift;
+  private rejectedReason(order: Order, decision: RoutingDecision, dex: DexName): string {
+    if (decision.hops) return 'not the best venue on any hop of the chosen path';
+    if (decision.split) return 'not part of the best split';
+    const quote = decision.quotes.find((q) => q.dex === dex);
+    const chosen = decision.chosen;
+    if (!quote || quote.effectivePrice <= 0) return 'cannot fill the order size';
+    if (order.routingObjective === 'lowest_latency') {
+      const latency = this.expectedLatencyMs(dex);
+      const chosenLatency = this.expectedLatencyMs(chosen.dex);
+      if (latency > chosenLatency) return `expected latency ${latency}ms vs ${chosenLatency}ms`;
+    }
+    if (order.swapMode === 'exact_out') {
+      const needed = fmt(quote.requiredAmountIn as number);
+      return `needs ${needed} in vs ${fmt(chosen.requiredAmountIn as number)}`;
+    }
+    return `effective price ${fmt(quote.effectivePrice)} vs ${fmt(chosen.effectivePrice)}`;
+  }
+
+  /**
+   * Quotes every venue in parallel and prices over those that answer in time. A venue that fails or times out is
+   * logged and recorded in `failures`; only when every venue fails does the first venue's error reject the route.
+   */
+  private async quoteAll(
+    order: Order,
+    request: QuoteRequest,
+    adapters: DexAdapter[],
+    failures: QuoteFailures
+  ): Promise<DexQuote[]> {
+    const results = await Promise.allSettled(
+      adapters.map(async (adapter) => {
+        const { quote, quotedAtMs } = await this.quoteCache.get(adapter, request, () =>
+          this.venueHealth.track(adapter.name, () => this.faults.quote(adapter, request))
+        );
+        return { ...this.withNetworkFee(order, request, quote), quotedAtMs };
+      })
+    );
 
-    return {
-      dex,
-      executedPrice,
-      txHash: `mocktx_${uuidv4().replace(/-/g, '')}`
-    };
+    const quotes: DexQuote[] = [];
+    results.forEach((result, i) => {
+      if (result.status === 'fulfilled') {
+        quotes.push(result.value);
+        return;
+      }
+      const dex = adapters[i].name;
+      const error = result.reason instanceof Error ? result.reason.message : String(result.reason);
+      failures.set(dex, error);
+      this.logger.warn('venue.quote_failed', {
+        orderId: order.orderId,
+        dex,
+        tokenIn: request.tokenIn,
+        tokenOut: request.tokenOut,
+        error
+      });
+    });
+    if (quotes.length === 0) throw (results[0] as PromiseRejectedResult).reason;
+    return quotes;
+  }
+
+  /**
+   * Deducts the network fee for one swap transaction from the quote's effective price. The fee is paid in SOL
+   * and converted to tokenOut at the mock reference price, so it weighs most on small orders, and every split leg
+   * and hop pays its own.
+   */
+  private withNetworkFee(order: Order, request: QuoteRequest, quote: DexQuote): DexQuote {
+    const computeUnits = this.registry.get(quote.dex).computeUnits ?? DEFAULT_SWAP_COMPUTE_UNITS;
+    const lamports = networkFeeLamports(this.networkFees, computeUnits, order.priorityFeeMicroLamports);
+    const tokenOutPerSol = stableReferencePrice(NETWORK_FEE_TOKEN) / stableReferencePrice(request.tokenOut);
+    const networkFee = lamportsToToken(lamports, tokenOutPerSol);
+    const amountOut = request.swapMode === 'exact_out' ? request.amount : request.amount * quote.effectivePrice;
+    // A quote that cannot fill (effective price 0) stays at 0.
+    const net = amountOut > 0 ? quote.effectivePrice * Math.max(0, 1 - networkFee / amountOut) : 0;
+    return { ...quote, networkFee, effectivePrice: net };
+  }
+
+  /**
+   * Quotes each candidate path hop by hop, feeding every hop the output expected from the one before, and keeps
+   * the path with the best compound effective price.
+   */
+  private async bestMultiHop(
+    order: Order,
+    paths: string[][],
+    adapters: DexAdapter[],
+    failures: QuoteFailures
+  ): Promise<{ chosen: DexQuote; hops: RouteHop[] } | undefined> {
+    const candidates = await Promise.all(
+      paths.map(async (path) => {
+        const hops: RouteHop[] = [];
+        let amount = order.amount;
+        for (let i = 0; i < path.length - 1; i++) {
+          const request = { tokenIn: path[i], tokenOut: path[i + 1], amount };
+          const quotes = await this.quoteAll(order, request, adapters, failures);
+          const chosen = this.pick(order, quotes);
+          hops.push({ tokenIn: path[i], tokenOut: path[i + 1], quotes, chosen });
+          amount *= chosen.effectivePrice;
+        }
+        return { chosen: compoundQuote(order.amount, hops), hops };
+      })
+    );
+    return candidates.reduce<{ chosen: DexQuote; hops: RouteHop[] } | undefined>(
+      (best, c) => (!best || c.chosen.effectivePrice > best.chosen.effectivePrice ? c : best),
+      undefined
+    );
+  }
+
+  private async routeDirect(order: Order, adapters: DexAdapter[], failures: QuoteFailures): Promise<RoutingDecision> {
+    const quotes = await this.quoteAll(order, order, adapters, failures);
+    const chosen = this.pick(order, quotes);
+
+    // A split adds a second swap to wait for, so only best_price considers one.
+    if (order.routingObjective === 'lowest_latency') return { quotes, chosen };
+    const split = this.findSplit(order, quotes, chosen);
+    if (!split) return { quotes, chosen };
+    this.logger.info('routing.split', {
+      orderId: order.orderId,
+      legs: split.legs.map((l) => ({ dex: l.dex, amount: l.amount, effectivePrice: l.effectivePrice })),
+      effectivePrice: split.effectivePrice,
+      requiredAmountIn: split.requiredAmountIn
+    });
+    return { quotes, chosen, split };
   }
-}
 
+  /**
+   * Searches two-venue splits along each venue's price-impact curve. exact_in maximizes the tokenOut received,
+   * exact_out minimizes the tokenIn spent.
+   */
+  private findSplit(order: Order, quotes: DexQuote[], chosen: DexQuote): SplitRoute | undefined {
+    const exactOut = order.swapMode === 'exact_out';
+    const legTotal = (leg: DexQuote): number =>
+      exactOut ? leg.amount / leg.effectivePrice : leg.amount * leg.effectivePrice;
+    const improvement = SPLIT_MIN_IMPROVEMENT_BPS / 10_000;
+    const single = legTotal(chosen);
+    const threshold = exactOut ? single * (1 - improvement) : single * (1 + improvement);
+
+    let best: { legs: DexQuote[]; total: number } | undefined;
+    for (let i = 0; i < quotes.length; i++) {
+      for (let j = i + 1; j < quotes.length; j++) {
+        for (let step = 1; step < SPLIT_STEPS; step++) {
+          const share = (order.amount * step) / SPLIT_STEPS;
+          const legs = [this.atSize(quotes[i], order, share), this.atSize(quotes[j], order, order.amount - share)];
+          const total = legs.reduce((sum, leg) => sum + legTotal(leg), 0);
+          const bar = best?.total ?? threshold;
+          if (exactOut ? total < bar : total > bar) best = { legs, total };
+        }
+      }
+    }
+    if (!best) return undefined;
+
+    if (exactOut) {
+      for (const leg of best.legs) leg.requiredAmountIn = legTotal(leg);
+      return { legs: best.legs, effectivePrice: order.amount / best.total, requiredAmountIn: best.total };
+    }
+    return { legs: best.legs, effectivePrice: best.total / order.amount };
+  }
+
+  private atSize(quote: DexQuote, order: Order, amount: number): DexQuote {
+    const request = { ...order, amount };
+    const resized = this.registry.get(quote.dex).quoteAtSize(quote, request);
+    return { ...this.withNetworkFee(order, request, resized), quotedAtMs: quote.quotedAtMs };
+  }
+
+  public async executeSwap(
+    dex: DexName,
+    order: Order,
+    quotedPrice: number,
+    limits?: SwapLimits
+  ): Promise<SwapExecutionResult> {
+    try {
+      return await this.faults.swap(this.registry.get(dex), order, quotedPrice, limits);
+    } finally {
+      // A swap that landed, even in part, moved the pool; cached quotes for it would price the old reserves.
+      this.quoteCache.invalidate(dex, order.tokenIn, order.tokenOut);
+    }
+  }
+}
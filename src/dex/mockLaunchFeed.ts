@@ -0,0 +1,33 @@
+import { v4 as uuidv4 } from 'uuid';
+import type { Logger, TokenLaunchEvent } from '../types';
+
+/**
+ * Local stand-in for an on-chain event stream: publishes "pool created for token X" events to in-process
+ * subscribers. Driven by the admin launch endpoint (or directly by tests).
+ */
+export class MockLaunchFeed {
+  private readonly logger: Logger;
+  private readonly handlers = new Set<(event: TokenLaunchEvent) => Promise<void>>();
+
+  public constructor(opts: { logger: Logger }) {
+    this.logger = opts.logger;
+  }
+
+  public subscribe(handler: (event: TokenLaunchEvent) => Promise<void>): () => void {
+    this.handlers.add(handler);
+    return () => {
+      this.handlers.delete(handler);
+    };
+  }
+
+  public async publish(launch: { token: string; poolId?: string }): Promise<TokenLaunchEvent> {
+    const event: TokenLaunchEvent = {
+      token: launch.token,
+      poolId: launch.poolId ?? `mockpool_${uuidv4().replace(/-/g, '')}`,
+      tsMs: Date.now()
+    };
+    this.logger.info('launch.published', { token: event.token, poolId: event.poolId });
+    await Promise.all([...this.handlers].map((h) => h(event)));
+    return event;
+  }
+}
@@ -0,0 +1,57 @@
+export const LAMPORTS_PER_SOL = 1_000_000_000;
+
+/**
+ * Network fees are paid in SOL, whatever the pair.
+ */
+export const NETWORK_FEE_TOKEN = 'SOL';
+
+/**
+ * Fee per signature; every swap transaction (each split leg and each hop) pays it once.
+ */
+export const DEFAULT_BASE_FEE_LAMPORTS = 5_000;
+
+/**
+ * Compute units charged for a swap on venues that do not state their own.
+ */
+export const DEFAULT_SWAP_COMPUTE_UNITS = 200_000;
+
+/**
+ * Largest share of the swap latency a priority fee can cut, and the compute-unit price that cuts half of that.
+ */
+export const MAX_PRIORITY_SPEEDUP = 0.75;
+
+export const PRIORITY_FEE_HALF_SPEEDUP_MICRO_LAMPORTS = 100_000;
+
+export interface NetworkFeeModel {
+  baseFeeLamports: number;
+}
+
+export const DEFAULT_NETWORK_FEES: NetworkFeeModel = { baseFeeLamports: DEFAULT_BASE_FEE_LAMPORTS };
+
+/**
+ * Lamports one swap transaction costs: the base fee plus the priority fee, which is the compute-unit price times
+ * the compute units the swap consumes.
+ */
+export function networkFeeLamports(
+  model: NetworkFeeModel,
+  computeUnits: number,
+  priorityFeeMicroLamports: number = 0
+): number {
+  return model.baseFeeLamports + Math.ceil((priorityFeeMicroLamports * computeUnits) / 1_000_000);
+}
+
+/**
+ * Converts a fee in lamports to another token, given that token's price in SOL terms (token per SOL).
+ */
+export function lamportsToToken(lamports: number, tokenPerSol: number): number {
+  return (lamports / LAMPORTS_PER_SOL) * tokenPerSol;
+}
+
+/**
+ * Share of the usual swap latency a transaction takes to land at this compute-unit price: 1 without a priority
+ * fee, falling toward 1 - MAX_PRIORITY_SPEEDUP as the fee grows.
+ */
+export function inclusionLatencyFactor(priorityFeeMicroLamports: number = 0): number {
+  const fee = Math.max(0, priorityFeeMicroLamports);
+  return 1 - (MAX_PRIORITY_SPEEDUP * fee) / (fee + PRIORITY_FEE_HALF_SPEEDUP_MICRO_LAMPORTS);
+}
@@ -0,0 +1,155 @@
+import type { DexAdapter, DexQuote, QuoteRequest } from '../types';
+
+export const DEFAULT_QUOTE_CACHE_TTL_MS = 1_000;
+
+/**
+ * Amounts are bucketed on a log scale with this many buckets per doubling, so a bucket spans about 19%.
+ */
+export const QUOTE_CACHE_BUCKETS_PER_DOUBLING = 4;
+
+/**
+ * Past this many entries, expired ones are swept on the next insert.
+ */
+export const QUOTE_CACHE_SWEEP_THRESHOLD = 10_000;
+
+export interface QuoteCacheStats {
+  ttlMs: number;
+  entries: number;
+  /**
+   * Served from a cached quote.
+   */
+  hits: number;
+  /**
+   * Sent to the venue.
+   */
+  misses: number;
+  /**
+   * Joined a request already in flight to the venue.
+   */
+  coalesced: number;
+}
+
+/**
+ * A venue quote and when it arrived.
+ */
+export interface TimedQuote {
+  quote: DexQuote;
+  quotedAtMs: number;
+}
+
+function amountBucket(amount: number): number {
+  return Math.floor(Math.log2(amount) * QUOTE_CACHE_BUCKETS_PER_DOUBLING);
+}
+
+function pairKey(dex: string, tokenA: string, tokenB: string): string {
+  return tokenA < tokenB ? `${dex}:${tokenA}:${tokenB}` : `${dex}:${tokenB}:${tokenA}`;
+}
+
+export function quoteCacheKey(dex: string, request: QuoteRequest): string {
+  const mode = request.swapMode ?? 'exact_in';
+  return `${dex}:${request.tokenIn}:${request.tokenOut}:${mode}:${amountBucket(request.amount)}`;
+}
+
+/**
+ * Short-lived venue quotes keyed by venue, pair, swap mode and amount bucket. A quote for another amount in the
+ * bucket is repriced with the adapter's `quoteAtSize`, and identical requests that arrive while one is in flight
+ * share its result. Failed requests are never cached. A TTL of 0 disables caching and coalescing. A swap moves
+ * the venue's pool, so the router drops the pair's entries with `invalidate` after each one.
+ */
+export class QuoteCache {
+  public readonly ttlMs: number;
+  private readonly now: () => number;
+  private readonly entries = new Map<string, TimedQuote>();
+  private readonly inflight = new Map<string, Promise<TimedQuote>>();
+  /**
+   * Bumped by `invalidate`, per venue and pair, so a quote requested before a swap is not cached after it.
+   */
+  private readonly generations = new Map<string, number>();
+  private hits = 0;
+  private misses = 0;
+  private coalesced = 0;
+
+  public constructor(opts: { ttlMs?: number; now?: () => number } = {}) {
+    this.ttlMs = opts.ttlMs ?? DEFAULT_QUOTE_CACHE_TTL_MS;
+    this.now = opts.now ?? (() => Date.now());
+  }
+
+  /**
+   * The quote for `request` on `adapter`, from the cache when fresh; otherwise from `load`, which asks the venue.
+   */
+  public async get(adapter: DexAdapter, request: QuoteRequest, load: () => Promise<DexQuote>): Promise<TimedQuote> {
+    if (this.ttlMs <= 0) {
+      this.misses++;
+      const quote = await load();
+      return { quote, quotedAtMs: this.now() };
+    }
+
+    const key = quoteCacheKey(adapter.name, request);
+    const cached = this.entries.get(key);
+    if (cached && this.now() - cached.quotedAtMs < this.ttlMs) {
+      this.hits++;
+      return this.resize(adapter, cached, request);
+    }
+    const pending = this.inflight.get(key);
+    if (pending) {
+      this.coalesced++;
+      return this.resize(adapter, await pending, request);
+    }
+
+    this.misses++;
+    const pair = pairKey(adapter.name, request.tokenIn, request.tokenOut);
+    const generation = this.generations.get(pair) ?? 0;
+    const fetched = load().then((quote) => ({ quote, quotedAtMs: this.now() }));
+    this.inflight.set(key, fetched);
+    try {
+      const entry = await fetched;
+      if ((this.generations.get(pair) ?? 0) === generation) this.store(key, entry);
+      return entry;
+    } finally {
+      if (this.inflight.get(key) === fetched) this.inflight.delete(key);
+    }
+  }
+
+  /**
+   * Drops every cached and in-flight quote for the pair on `dex`, in both directions and at every size.
+   */
+  public invalidate(dex: string, tokenA: string, tokenB: string): void {
+    const pair = pairKey(dex, tokenA, tokenB);
+    this.generations.set(pair, (this.generations.get(pair) ?? 0) + 1);
+    const prefixes = [`${dex}:${tokenA}:${tokenB}:`, `${dex}:${tokenB}:${tokenA}:`];
+    for (const map of [this.entries, this.inflight]) {
+      for (const key of map.keys()) {
+        if (prefixes.some((p) => key.startsWith(p))) map.delete(key);
+      }
+    }
+  }
+
+  public stats(): QuoteCacheStats {
+    return {
+      ttlMs: this.ttlMs,
+      entries: this.entries.size,
+      hits: this.hits,
+      misses: this.misses,
+      coalesced: this.coalesced
+    };
+  }
+
+  public clear(): void {
+    this.entries.clear();
+  }
+
+  private resize(adapter: DexAdapter, entry: TimedQuote, request: QuoteRequest): TimedQuote {
+    if (entry.quote.amount === request.amount) return entry;
+    return { quote: adapter.quoteAtSize(entry.quote, request), quotedAtMs: entry.quotedAtMs };
+  }
+
+  private store(key: string, entry: TimedQuote): void {
+    if (this.entries.size >= QUOTE_CACHE_SWEEP_THRESHOLD) {
+      const now = this.now();
+      for (const [k, e] of this.entries) {
+        if (now - e.quotedAtMs >= this.ttlMs) this.entries.delete(k);
+      }
+    }
+    this.entries.set(key, entry);
+  }
+}
@@ -0,0 +1,173 @@
+import { readFileSync } from 'fs';
+import type { DexName } from '../types';
+import { MOCK_DEX_PROFILES, type MockDexProfile } from './mockDexAdapter';
+
+/**
+ * Uniform latency between minMs and maxMs.
+ */
+export interface LatencyRange {
+  minMs: number;
+  maxMs: number;
+}
+
+export interface VenueScenario {
+  priceBias?: number;
+  quoteLatencyMs?: LatencyRange;
+  swapLatencyMs?: LatencyRange;
+  quoteFailureRate?: number;
+  swapFailureRate?: number;
+}
+
+/**
+ * Reproducible conditions for the mock venues: a PRNG seed plus per-venue overrides of the built-in profiles.
+ * Venues the scenario leaves out keep their defaults.
+ */
+export interface SimulationScenario {
+  seed: number;
+  venues: Record<DexName, VenueScenario>;
+}
+
+export class ScenarioError extends Error {
+  public constructor(message: string) {
+    super(message);
+    this.name = 'ScenarioError';
+  }
+}
+
+/**
+ * FNV-1a over the string, for deriving 32-bit seeds.
+ */
+function hashString(value: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+/**
+ * mulberry32: a small, fast PRNG returning values in [0, 1). Same seed, same sequence.
+ */
+export function createSeededRandom(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4_294_967_296;
+  };
+}
+
+/**
+ * Gives every venue its own stream derived from the scenario seed, so the draws one venue makes never shift
+ * another's, however their quotes and swaps interleave.
+ */
+export function scenarioRandomFor(scenario: SimulationScenario): (dex: DexName) => () => number {
+  return (dex) => createSeededRandom(hashString(`${scenario.seed}:${dex}`));
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function parseLatency(value: unknown, path: string): LatencyRange | undefined {
+  if (value === undefined) return undefined;
+  if (!isObject(value)) throw new ScenarioError(`${path} must be an object with minMs and maxMs`);
+  const { minMs, maxMs } = value;
+  if (typeof minMs !== 'number' || typeof maxMs !== 'number' || !(minMs >= 0) || !(maxMs >= minMs)) {
+    throw new ScenarioError(`${path} must satisfy 0 <= minMs <= maxMs`);
+  }
+  return { minMs, maxMs };
+}
+
+function parseRate(value: unknown, path: string): number | undefined {
+  if (value === undefined) return undefined;
+  if (typeof value !== 'number' || !(value >= 0 && value <= 1)) {
+    throw new ScenarioError(`${path} must be a number between 0 and 1`);
+  }
+  return value;
+}
+
+function parseVenue(value: unknown, path: string): VenueScenario {
+  if (!isObject(value)) throw new ScenarioError(`${path} must be an object`);
+  const { priceBias } = value;
+  if (priceBias !== undefined && (typeof priceBias !== 'number' || !(priceBias > 0))) {
+    throw new ScenarioError(`${path}.priceBias must be a positive number`);
+  }
+  return {
+    priceBias,
+    quoteLatencyMs: parseLatency(value.quoteLatencyMs, `${path}.quoteLatencyMs`),
+    swapLatencyMs: parseLatency(value.swapLatencyMs, `${path}.swapLatencyMs`),
+    quoteFailureRate: parseRate(value.quoteFailureRate, `${path}.quoteFailureRate`),
+    swapFailureRate: parseRate(value.swapFailureRate, `${path}.swapFailureRate`)
+  };
+}
+
+export function parseScenario(value: unknown): SimulationScenario {
+  if (!isObject(value)) throw new ScenarioError('Scenario must be a JSON object');
+  const { seed, venues = {} } = value;
+  if (typeof seed !== 'number' || !Number.isInteger(seed)) throw new ScenarioError('seed must be an integer');
+  if (!isObject(venues)) throw new ScenarioError('venues must be an object keyed by venue name');
+
+  const parsed: Record<DexName, VenueScenario> = {};
+  for (const [dex, venue] of Object.entries(venues)) parsed[dex] = parseVenue(venue, `venues.${dex}`);
+  return { seed, venues: parsed };
+}
+
+/**
+ * Reads the scenario file named by MOCK_DEX_SCENARIO, or returns undefined when the variable is unset.
+ */
+export function loadScenarioFromEnv(env: NodeJS.ProcessEnv = process.env): SimulationScenario | undefined {
+  const path = env.MOCK_DEX_SCENARIO;
+  if (!path || path.trim().length === 0) return undefined;
+
+  let raw: unknown;
+  try {
+    raw = JSON.parse(readFileSync(path, 'utf8'));
+  } catch (err) {
+    throw new ScenarioError(`Cannot read scenario ${path}: ${String(err)}`);
+  }
+  return parseScenario(raw);
+}
+
+/**
+ * The profiles with the scenario's overrides applied. Naming a venue the profiles lack is an error, so a typo
+ * cannot silently leave a venue at its defaults.
+ */
+export function applyScenario(
+  scenario: SimulationScenario,
+  profiles: MockDexProfile[] = MOCK_DEX_PROFILES
+): MockDexProfile[] {
+  for (const dex of Object.keys(scenario.venues)) {
+    if (!profiles.some((p) => p.name === dex)) throw new ScenarioError(`Scenario names unknown venue: ${dex}`);
+  }
+  return profiles.map((profile) => {
+    const venue = scenario.venues[profile.name];
+    if (!venue) return profile;
+    const next: MockDexProfile = { ...profile };
+    if (venue.priceBias !== undefined) next.priceBias = venue.priceBias;
+    if (venue.quoteLatencyMs) {
+      next.quoteLatencyMs = venue.quoteLatencyMs.minMs;
+      next.quoteJitterMs = venue.quoteLatencyMs.maxMs - venue.quoteLatencyMs.minMs;
+    }
+    if (venue.swapLatencyMs) {
+      next.swapLatencyMs = venue.swapLatencyMs.minMs;
+      next.swapJitterMs = venue.swapLatencyMs.maxMs - venue.swapLatencyMs.minMs;
+    }
+    if (venue.quoteFailureRate !== undefined) next.quoteFailureRate = venue.quoteFailureRate;
+    if (venue.swapFailureRate !== undefined) next.swapFailureRate = venue.swapFailureRate;
+    return next;
+  });
+}
+
+/**
+ * Registry factory options (`profiles`, `randomFor`) that put a scenario into effect.
+ */
+export function scenarioRegistryOptions(scenario: SimulationScenario): {
+  profiles: MockDexProfile[];
+  randomFor: (dex: DexName) => () => number;
+} {
+  return { profiles: applyScenario(scenario), randomFor: scenarioRandomFor(scenario) };
+}
@@ -0,0 +1,75 @@
+/**
+ * Pools the mock venues list. Long-tail tokens only pair with SOL, so e.g. BONK → USDC has to route through SOL.
+ */
+export const DEFAULT_TOKEN_PAIRS: Array<[string, string]> = [
+  ['SOL', 'USDC'],
+  ['SOL', 'USDT'],
+  ['USDC', 'USDT'],
+  ['JUP', 'SOL'],
+  ['JUP', 'USDC'],
+  ['RAY', 'SOL'],
+  ['RAY', 'USDC'],
+  ['BONK', 'SOL'],
+  ['WIF', 'SOL']
+];
+
+/**
+ * Longest path the router evaluates, in hops (pools). Each extra hop adds a swap and its fee.
+ */
+export const MAX_ROUTE_HOPS = 3;
+
+/**
+ * Undirected token-pair graph: an edge means the venues list a pool for that pair, tradable either way.
+ */
+export class TokenGraph {
+  private readonly edges = new Map<string, Set<string>>();
+
+  public constructor(pairs: Array<[string, string]> = DEFAULT_TOKEN_PAIRS) {
+    for (const [a, b] of pairs) this.addPair(a, b);
+  }
+
+  public addPair(a: string, b: string): void {
+    if (a === b) throw new Error(`Invalid pair: ${a}/${b}`);
+    this.link(a, b);
+    this.link(b, a);
+  }
+
+  private link(from: string, to: string): void {
+    const neighbors = this.edges.get(from) ?? new Set<string>();
+    neighbors.add(to);
+    this.edges.set(from, neighbors);
+  }
+
+  public hasToken(token: string): boolean {
+    return this.edges.has(token);
+  }
+
+  /**
+   * Tokens the graph has never seen (e.g. freshly launched ones) are assumed to have a direct pool, so routing
+   * for them behaves as it did before the graph existed.
+   */
+  public hasPool(a: string, b: string): boolean {
+    if (!this.hasToken(a) || !this.hasToken(b)) return a !== b;
+    return this.edges.get(a)?.has(b) ?? false;
+  }
+
+  /**
+   * Simple paths (no repeated token) through listed pools, as token lists including both ends, shortest first.
+   */
+  public paths(from: string, to: string, maxHops: number = MAX_ROUTE_HOPS): string[][] {
+    const found: string[][] = [];
+    const walk = (path: string[]): void => {
+      const last = path[path.length - 1];
+      if (last === to) {
+        found.push(path);
+        return;
+      }
+      if (path.length > maxHops) return;
+      for (const next of this.edges.get(last) ?? []) {
+        if (!path.includes(next)) walk([...path, next]);
+      }
+    };
+    if (this.hasToken(from)) walk([from]);
+    return found.sort((a, b) => a.length - b.length);
+  }
+}
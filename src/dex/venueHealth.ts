@@ -0,0 +1,220 @@
+import type { DexName, Logger } from '../types';
+import { QuoteTimeoutError } from './faultInjector';
+
+/**
+ * How long one venue's quote may take before routing goes ahead without it.
+ */
+export const DEFAULT_VENUE_QUOTE_TIMEOUT_MS = 1_000;
+
+/**
+ * Each venue's stats cover its last this-many quotes.
+ */
+export const VENUE_HEALTH_WINDOW = 20;
+
+/**
+ * The circuit opens once at least CIRCUIT_MIN_SAMPLES quotes are in the window and this share of them failed.
+ */
+export const CIRCUIT_ERROR_RATE_THRESHOLD = 0.5;
+
+export const CIRCUIT_MIN_SAMPLES = 5;
+
+/**
+ * How long an open circuit keeps a venue out of routing before a probe quote is let through.
+ */
+export const DEFAULT_CIRCUIT_COOLDOWN_MS = 10_000;
+
+/**
+ * `closed` routes normally, `open` keeps the venue out of routing, and `half_open` lets one probe quote through
+ * whose outcome closes or re-opens the circuit.
+ */
+export type CircuitState = 'closed' | 'open' | 'half_open';
+
+export interface VenueHealthStats {
+  dex: DexName;
+  state: CircuitState;
+  samples: number;
+  errors: number;
+  /**
+   * Failed quotes that were timeouts; included in `errors`.
+   */
+  timeouts: number;
+  errorRate: number;
+  /**
+   * Over the successful quotes in the window; null without any.
+   */
+  avgLatencyMs: number | null;
+  p95LatencyMs: number | null;
+  lastError: string | null;
+  /**
+   * When an open circuit lets its next probe through.
+   */
+  openUntilMs: number | null;
+}
+
+interface QuoteSample {
+  ok: boolean;
+  timeout: boolean;
+  latencyMs: number;
+}
+
+interface VenueCircuit {
+  state: CircuitState;
+  samples: QuoteSample[];
+  lastError: string | null;
+  openUntilMs: number | null;
+  probing: boolean;
+}
+
+export class CircuitOpenError extends Error {
+  public constructor(tokenIn: string, tokenOut: string) {
+    super(`No venue available for ${tokenIn}→${tokenOut}: every allowed venue has an open circuit`);
+    this.name = 'CircuitOpenError';
+  }
+}
+
+function percentile(sorted: number[], p: number): number {
+  return sorted[Math.min(sorted.length - 1, Math.ceil(p * sorted.length) - 1)];
+}
+
+/**
+ * Rolling quote error and latency stats per venue, and a circuit breaker over them. Every venue quote is timed
+ * out after `quoteTimeoutMs`, so one hung venue cannot hold up routing, and a timeout counts as a failure. When
+ * a venue's recent quotes fail too often its circuit opens and routing skips it until the cooldown ends.
+ */
+export class VenueHealth {
+  public readonly quoteTimeoutMs: number;
+  public readonly cooldownMs: number;
+  private readonly logger: Logger;
+  private readonly now: () => number;
+  private readonly circuits = new Map<DexName, VenueCircuit>();
+
+  public constructor(opts: { logger: Logger; quoteTimeoutMs?: number; cooldownMs?: number; now?: () => number }) {
+    this.logger = opts.logger;
+    this.quoteTimeoutMs = opts.quoteTimeoutMs ?? DEFAULT_VENUE_QUOTE_TIMEOUT_MS;
+    this.cooldownMs = opts.cooldownMs ?? DEFAULT_CIRCUIT_COOLDOWN_MS;
+    this.now = opts.now ?? (() => Date.now());
+  }
+
+  /**
+   * Why routing should skip `dex` right now, or undefined when it may be quoted. An open circuit whose cooldown
+   * has ended turns half-open here.
+   */
+  public unavailableReason(dex: DexName): string | undefined {
+    const circuit = this.circuit(dex);
+    if (circuit.state === 'open' && this.now() >= (circuit.openUntilMs as number)) {
+      circuit.state = 'half_open';
+      circuit.probing = false;
+      this.logger.info('venue.circuit_half_open', { dex });
+    }
+    if (circuit.state === 'closed') return undefined;
+    if (circuit.state === 'half_open') return circuit.probing ? 'circuit half-open: probe quote in flight' : undefined;
+    const { errorRate, samples } = this.venueStats(dex, circuit);
+    return `circuit open: ${Math.round(errorRate * 100)}% of the last ${samples} quotes failed`;
+  }
+
+  /**
+   * Runs one quote against `dex` under the timeout and records how it went.
+   */
+  public async track<T>(dex: DexName, quote: () => Promise<T>): Promise<T> {
+    const circuit = this.circuit(dex);
+    if (circuit.state === 'half_open') circuit.probing = true;
+    const startedAtMs = this.now();
+    try {
+      const result = await this.withTimeout(dex, quote);
+      this.record(dex, { ok: true, timeout: false, latencyMs: this.now() - startedAtMs });
+      return result;
+    } catch (err) {
+      circuit.lastError = err instanceof Error ? err.message : String(err);
+      const timeout = err instanceof QuoteTimeoutError;
+      this.record(dex, { ok: false, timeout, latencyMs: this.now() - startedAtMs });
+      throw err;
+    }
+  }
+
+  /**
+   * One entry per venue, in the order given; venues never quoted report an empty, closed window.
+   */
+  public stats(dexes: DexName[]): VenueHealthStats[] {
+    return dexes.map((dex) => this.venueStats(dex, this.circuit(dex)));
+  }
+
+  private circuit(dex: DexName): VenueCircuit {
+    let circuit = this.circuits.get(dex);
+    if (!circuit) {
+      circuit = { state: 'closed', samples: [], lastError: null, openUntilMs: null, probing: false };
+      this.circuits.set(dex, circuit);
+    }
+    return circuit;
+  }
+
+  private async withTimeout<T>(dex: DexName, quote: () => Promise<T>): Promise<T> {
+    if (this.quoteTimeoutMs <= 0) return await quote();
+    let timer: NodeJS.Timeout | undefined;
+    const timeout = new Promise<never>((_, reject) => {
+      timer = setTimeout(() => reject(new QuoteTimeoutError(dex, this.quoteTimeoutMs)), this.quoteTimeoutMs);
+    });
+    try {
+      return await Promise.race([quote(), timeout]);
+    } finally {
+      clearTimeout(timer);
+    }
+  }
+
+  private record(dex: DexName, sample: QuoteSample): void {
+    const circuit = this.circuit(dex);
+    circuit.samples.push(sample);
+    if (circuit.samples.length > VENUE_HEALTH_WINDOW) circuit.samples.shift();
+
+    if (circuit.state === 'half_open') {
+      if (sample.ok) {
+        // A venue that recovered starts over, so the failures that opened the circuit cannot re-open it.
+        circuit.state = 'closed';
+        circuit.samples = [sample];
+        circuit.openUntilMs = null;
+        this.logger.info('venue.circuit_closed', { dex, latencyMs: sample.latencyMs });
+      } else {
+        this.open(dex, circuit);
+      }
+      return;
+    }
+
+    if (circuit.state !== 'closed' || sample.ok) return;
+    const { samples, errorRate } = this.venueStats(dex, circuit);
+    if (samples >= CIRCUIT_MIN_SAMPLES && errorRate >= CIRCUIT_ERROR_RATE_THRESHOLD) this.open(dex, circuit);
+  }
+
+  private open(dex: DexName, circuit: VenueCircuit): void {
+    circuit.state = 'open';
+    circuit.probing = false;
+    circuit.openUntilMs = this.now() + this.cooldownMs;
+    const { samples, errorRate } = this.venueStats(dex, circuit);
+    this.logger.warn('venue.circuit_opened', {
+      dex,
+      samples,
+      errorRate,
+      lastError: circuit.lastError,
+      openUntilMs: circuit.openUntilMs
+    });
+  }
+
+  private venueStats(dex: DexName, circuit: VenueCircuit): VenueHealthStats {
+    const samples = circuit.samples.length;
+    const errors = circuit.samples.filter((s) => !s.ok).length;
+    const latencies = circuit.samples
+      .filter((s) => s.ok)
+      .map((s) => s.latencyMs)
+      .sort((a, b) => a - b);
+    return {
+      dex,
+      state: circuit.state,
+      samples,
+      errors,
+      timeouts: circuit.samples.filter((s) => s.timeout).length,
+      errorRate: samples === 0 ? 0 : errors / samples,
+      avgLatencyMs: latencies.length === 0 ? null : latencies.reduce((a, b) => a + b, 0) / latencies.length,
+      p95LatencyMs: latencies.length === 0 ? null : percentile(latencies, 0.95),
+      lastError: circuit.lastError,
+      openUntilMs: circuit.state === 'open' ? circuit.openUntilMs : null
+    };
+  }
+}
@@ -30,16 +30,39 @@ export class BullMqQueueClient implements QueueClient {
     this.queue = queue;
   }
 
-  public async enqueue(order: { orderId: string }): Promise<void> {
+  public async enqueue(order: { orderId: string }, opts: { delayMs?: number; jobId?: string } = {}): Promise<void> {
     await this.queue.add(
       ORDER_JOB_NAME,
       { orderId: order.orderId },
       {
-        jobId: order.orderId
+        jobId: opts.jobId ?? order.orderId,
+        ...(opts.delayMs ? { delay: opts.delayMs } : {})
       }
     );
   }
 
+  public async enqueueBulk(orders: Array<{ orderId: string }>): Promise<void> {
+    await this.queue.addBulk(
+      orders.map((order) => ({
+        name: ORDER_JOB_NAME,
+        data: { orderId: order.orderId },
+        opts: { jobId: order.orderId }
+      }))
+    );
+  }
+
+  public async remove(orderId: string): Promise<boolean> {
+    const job = await this.queue.getJob(orderId);
+    if (!job) return false;
+    try {
+      await job.remove();
+      return true;
+    } catch {
+      // Active (locked) jobs cannot be removed; the worker skips them once it sees the cancellation.
+      return false;
+    }
+  }
+
   public async close(): Promise<void> {
     await this.queue.close();
   }
@@ -1,6 +1,27 @@
 import { Worker, type Job } from 'bullmq';
-import type { ActiveOrderStore, Db, EventBus, Logger, Order, OrderEvent, OrderStatus } from '../types';
-import { MockDexRouter } from '../dex/mockDexRouter';
+import type {
+  ActiveOrderStore,
+  Db,
+  DexName,
+  DexQuote,
+  EventBus,
+  Logger,
+  Order,
+  OrderEvent,
+  OrderFinalRecord,
+  OrderLeg,
+  OrderStatus,
+  QueueClient,
+  RequoteReason,
+  RouteHop,
+  RoutingDecision,
+  SwapExecutionResult,
+  SwapLimits,
+  TwapProgress
+} from '../types';
+import { SwapLimitExceededError } from '../dex/mockDexAdapter';
+import { MockDexRouter, NoRouteError } from '../dex/mockDexRouter';
+import { withOrderLock } from '../services/orderService';
 import { ORDER_QUEUE_NAME, ORDER_RATE_LIMIT_DURATION_MS, ORDER_RATE_LIMIT_MAX } from './orderQueue';
 
 function nowMs(): number {
@@ -12,7 +33,7 @@ function lastStatus(events: OrderEvent[]): OrderStatus | null {
   return events[events.length - 1].status;
 }
 
-async function emitEvent(opts: {
+export async function emitEvent(opts: {
   activeStore: ActiveOrderStore;
   eventBus: EventBus;
   ttlSeconds: number;
@@ -26,9 +47,29 @@ function hasStatus(events: OrderEvent[], status: OrderStatus): boolean {
   return events.some((e) => e.status === status);
 }
 
+export function isFinalStatus(status: OrderStatus | null): boolean {
+  return (
+    status === 'confirmed' ||
+    status === 'failed' ||
+    status === 'expired' ||
+    status === 'completed' ||
+    status === 'cancelled'
+  );
+}
+
 export const ORDER_WORKER_CONCURRENCY = 10;
 export const ORDER_MAX_ATTEMPTS = 3;
 export const ORDER_BACKOFF_BASE_MS = 1_000;
+export const LIMIT_REQUOTE_INTERVAL_MS = 5_000;
+export const MAX_QUOTE_AGE_MS = 2_000;
+
+/**
+ * An execution failure that can come after swaps have landed. `legs` holds those swaps, if any, and the failed
+ * order records them.
+ */
+export abstract class LandedSwapsError extends Error {
+  public legs: OrderLeg[] = [];
+}
 
 export function computeExponentialBackoffMs(attempt: number, baseMs = ORDER_BACKOFF_BASE_MS): number {
   // attempt is 1-based: attempt=1 means no previous failures; first retry waits baseMs.
@@ -36,6 +77,84 @@ export function computeExponentialBackoffMs(attempt: number, baseMs = ORDER_BACK
   return baseMs * Math.pow(2, exponent);
 }
 
+/**
+ * Raised when a swap executes below the order's minimum acceptable price (or, for exact_out orders, spends
+ * more than the maximum input). Not retried: the order
+ * fails with this as its failure reason instead of being confirmed.
+ */
+export class SlippageExceededError extends LandedSwapsError {
+  public constructor(detail: string, slippageBps: number) {
+    super(`Slippage exceeded: ${detail} (slippageBps=${slippageBps})`);
+    this.name = 'SlippageExceededError';
+  }
+}
+
+/**
+ * Raised when a venue fills only part of a leg of an order that is not `ioc`. Not retried: the filled part has
+ * already moved funds, so re-running the whole order could overfill it.
+ */
+export class PartialFillError extends LandedSwapsError {
+  public constructor(dex: DexName, filled: number, requested: number) {
+    super(`Partial fill on ${dex}: ${filled} of ${requested}`);
+    this.name = 'PartialFillError';
+  }
+}
+
+/**
+ * Raised when some of an order's swaps landed and another failed. Not retried: a retry would run the landed
+ * swaps again.
+ */
+export class PartialExecutionError extends LandedSwapsError {
+  public constructor(legs: OrderLeg[], swaps: number, cause: unknown) {
+    const reason = cause instanceof Error ? cause.message : String(cause);
+    super(`${reason} after ${legs.length} of ${swaps} swaps landed`);
+    this.name = 'PartialExecutionError';
+    this.legs = legs;
+  }
+}
+
+export function computeMinAcceptablePrice(quotedPrice: number, slippageBps: number): number {
+  return quotedPrice * (1 - slippageBps / 10_000);
+}
+
+/**
+ * exact_out orders fix the output, so slippage caps the input instead of the price.
+ */
+export function computeMaxAmountIn(quotedAmountIn: number, slippageBps: number): number {
+  return quotedAmountIn * (1 + slippageBps / 10_000);
+}
+
+/**
+ * Order-level view of a (possibly split) fill: summed amounts, the executed price weighted by input volume,
+ * and the largest leg's venue and tx hash.
+ */
+export function summarizeLegs(legs: OrderLeg[]): SwapExecutionResult {
+  if (legs.length === 1) {
+    const { dex, executedPrice, txHash, amountIn, amountOut } = legs[0];
+    return { dex, executedPrice, txHash, amountIn, amountOut };
+  }
+  const largest = legs.reduce((a, b) => (b.amount > a.amount ? b : a));
+  const amountIn = legs.reduce((sum, l) => sum + l.amountIn, 0);
+  const amountOut = legs.reduce((sum, l) => sum + l.amountOut, 0);
+  const executedPrice = legs.reduce((sum, l) => sum + l.executedPrice * l.amountIn, 0) / amountIn;
+  return { dex: largest.dex, executedPrice, txHash: largest.txHash, amountIn, amountOut };
+}
+
+/**
+ * Order-level view of a multi-hop fill: what went into the first hop, what came out of the last, the compound
+ * executed price, and the venue path. The tx hash is the last hop's, which delivered tokenOut.
+ */
+export function summarizeHops(legs: OrderLeg[]): SwapExecutionResult {
+  const last = legs[legs.length - 1];
+  return {
+    dex: legs.map((l) => l.dex).join('>'),
+    executedPrice: legs.reduce((p, l) => p * l.executedPrice, 1),
+    txHash: last.txHash,
+    amountIn: legs[0].amountIn,
+    amountOut: last.amountOut
+  };
+}
+
 export interface Sleeper {
   sleep(ms: number): Promise<void>;
 }
@@ -53,36 +172,444 @@ export interface OrderWorkerDeps {
   logger: Logger;
   activeOrderTtlSeconds: number;
   sleeper?: Sleeper;
+  /**
+   * Required to schedule TWAP child orders. Resting limit orders are re-enqueued on it; without one they sleep
+   * in the job instead.
+   */
+  queue?: QueueClient;
+  /**
+   * A route whose quotes are older than this when the order is about to be submitted is quoted again first.
+   * Defaults to MAX_QUOTE_AGE_MS.
+   */
+  maxQuoteAgeMs?: number;
+}
+
+/**
+ * Where an earlier attempt at the order was routed, so a retry can tell whether its fresh quote moved the order.
+ */
+export interface AttemptContext {
+  route?: RouteSummary;
 }
 
-export async function processOrderOnce(deps: OrderWorkerDeps, order: Order): Promise<void> {
+/**
+ * The venue an executable decision trades on (split legs joined with '+', hops with '>') and its effective price.
+ */
+export interface RouteSummary {
+  dex: DexName;
+  effectivePrice: number;
+}
+
+/**
+ * ioc / fok orders get one attempt and never rest.
+ */
+export function isImmediateOrder(order: Order): boolean {
+  return order.timeInForce === 'ioc' || order.timeInForce === 'fok';
+}
+
+export function isPastDeadline(order: Order, atMs: number = nowMs()): boolean {
+  return order.deadlineMs !== undefined && atMs >= order.deadlineMs;
+}
+
+/**
+ * What routing an order came to: a decision to execute, an expiry, a cancellation, or (for a limit order whose
+ * price is not reached yet) a re-enqueued job that picks the order up again later.
+ */
+type RouteOutcome = RoutingDecision | { expired: string } | 'cancelled' | 'resting';
+
+/**
+ * Re-quotes every LIMIT_REQUOTE_INTERVAL_MS until the chosen venue's effective price meets the limit. Between
+ * re-quotes the order rests in the queue as a delayed job, so it holds no worker slot. Each rest refreshes the
+ * active order's TTL, so the order stays cancellable however far off its expiry is. A failed re-quote only means
+ * the limit was not reached this time, unless no route exists at all. Stops early with an expiry reason once the
+ * order's expiry or deadline has passed (or at once for ioc / fok), or with 'cancelled' if it was cancelled
+ * meanwhile.
+ */
+async function routeWhenLimitReached(deps: OrderWorkerDeps, order: Order): Promise<RouteOutcome> {
+  const sleeper = deps.sleeper ?? realSleeper;
   const orderId = order.orderId;
-  const events = await deps.activeStore.listEvents(orderId);
-  const last = lastStatus(events);
-  if (last === 'confirmed' || last === 'failed') return;
+  const limitPrice = order.limitPrice ?? 0;
+  const expiresAtMs = Math.min(order.expiresAtMs ?? 0, order.deadlineMs ?? Infinity);
 
-  if (!hasStatus(events, 'routing')) {
-    await emitEvent({
-      activeStore: deps.activeStore,
-      eventBus: deps.eventBus,
-      ttlSeconds: deps.activeOrderTtlSeconds,
-      event: { orderId, status: 'routing', tsMs: nowMs() }
+  for (;;) {
+    let decision: RoutingDecision | undefined;
+    try {
+      decision = await deps.router.route(order);
+    } catch (err) {
+      if (err instanceof NoRouteError || isImmediateOrder(order)) throw err;
+      deps.logger.warn('limit.requote_failed', { orderId, error: err instanceof Error ? err.message : String(err) });
+    }
+    if (decision && decision.chosen.effectivePrice >= limitPrice) return decision;
+
+    if (isImmediateOrder(order)) {
+      return { expired: `limitPrice ${limitPrice} not immediately reachable (timeInForce=${order.timeInForce})` };
+    }
+    const remainingMs = expiresAtMs - nowMs();
+    if (remainingMs <= 0) return { expired: `limitPrice ${limitPrice} not reached before expiry` };
+    if (hasStatus(await deps.activeStore.listEvents(orderId), 'cancelled')) return 'cancelled';
+
+    await deps.activeStore.putActiveOrder(order, deps.activeOrderTtlSeconds);
+    const waitMs = Math.min(LIMIT_REQUOTE_INTERVAL_MS, remainingMs);
+    deps.logger.info('limit.waiting', {
+      orderId,
+      limitPrice,
+      effectivePrice: decision?.chosen.effectivePrice ?? null,
+      remainingMs
     });
+    if (deps.queue) {
+      // The running job still holds the order's own job id, so the rest needs an id of its own.
+      await deps.queue.enqueue(order, { delayMs: waitMs, jobId: `${orderId}:rest:${nowMs()}` });
+      return 'resting';
+    }
+    await sleeper.sleep(waitMs);
   }
+}
+
+function routeOrder(deps: OrderWorkerDeps, order: Order): Promise<RouteOutcome> {
+  return order.type === 'limit' ? routeWhenLimitReached(deps, order) : deps.router.route(order);
+}
 
-  const decision = await deps.router.route(order);
+function summarizeRoute(decision: RoutingDecision): RouteSummary {
+  if (decision.split) {
+    return { dex: decision.split.legs.map((l) => l.dex).join('+'), effectivePrice: decision.split.effectivePrice };
+  }
+  return { dex: decision.chosen.dex, effectivePrice: decision.chosen.effectivePrice };
+}
 
-  if (!hasStatus(events, 'building')) {
+/**
+ * When the oldest quote the decision would execute against arrived, if the router stamped it.
+ */
+function oldestQuoteAtMs(decision: RoutingDecision): number | undefined {
+  const times = (decision.split ? decision.split.legs : [decision.chosen])
+    .map((q) => q.quotedAtMs)
+    .filter((t): t is number => t !== undefined);
+  return times.length > 0 ? Math.min(...times) : undefined;
+}
+
+/**
+ * Logs a re-quote and, when it moved the order to another venue, emits `requoted` with both routes.
+ */
+async function noteRequote(
+  deps: OrderWorkerDeps,
+  orderId: string,
+  reason: RequoteReason,
+  previous: RouteSummary,
+  next: RouteSummary
+): Promise<void> {
+  deps.logger.info('order.requoted', {
+    orderId,
+    reason,
+    previousDex: previous.dex,
+    previousEffectivePrice: previous.effectivePrice,
+    dex: next.dex,
+    effectivePrice: next.effectivePrice
+  });
+  if (next.dex === previous.dex) return;
+  await emitEvent({
+    activeStore: deps.activeStore,
+    eventBus: deps.eventBus,
+    ttlSeconds: deps.activeOrderTtlSeconds,
+    event: {
+      orderId,
+      status: 'requoted',
+      tsMs: nowMs(),
+      reason,
+      previousDex: previous.dex,
+      previousEffectivePrice: previous.effectivePrice,
+      dex: next.dex,
+      effectivePrice: next.effectivePrice
+    }
+  });
+}
+
+async function expireOrder(
+  deps: Pick<OrderWorkerDeps, 'activeStore' | 'eventBus' | 'db' | 'activeOrderTtlSeconds'>,
+  orderId: string,
+  reason: string
+): Promise<void> {
+  await withOrderLock(deps.activeStore, orderId, async () => {
+    if (isFinalStatus(lastStatus(await deps.activeStore.listEvents(orderId)))) return;
+    const updatedAtMs = nowMs();
+    await deps.db.expireOrder({ orderId, reason, updatedAtMs });
     await emitEvent({
       activeStore: deps.activeStore,
       eventBus: deps.eventBus,
       ttlSeconds: deps.activeOrderTtlSeconds,
-      event: { orderId, status: 'building', tsMs: nowMs() }
+      event: { orderId, status: 'expired', tsMs: updatedAtMs, reason }
+    });
+  });
+}
+
+/**
+ * Expires an armed order whose active-store entry is gone, which leaves nothing to trigger it with. Only the
+ * caller that wins the disarm expires it, so it cannot also have been triggered or cancelled.
+ */
+export async function expireDroppedArmedOrder(
+  deps: Pick<OrderWorkerDeps, 'activeStore' | 'eventBus' | 'db' | 'logger' | 'activeOrderTtlSeconds'>,
+  orderId: string
+): Promise<void> {
+  if (!(await deps.activeStore.disarmOrder(orderId))) return;
+  deps.logger.warn('order.dropped', { orderId });
+  await expireOrder(deps, orderId, 'active order expired while armed');
+}
+
+/**
+ * Executes one swap under `limits`. A venue rejects a swap outside them before it lands, which fails the order
+ * with the same slippage error as a fill that the post-execution check rejects.
+ */
+async function executeWithinLimits(
+  deps: OrderWorkerDeps,
+  order: Order,
+  dex: DexName,
+  swap: Order,
+  quotedPrice: number,
+  limits: SwapLimits
+): Promise<SwapExecutionResult> {
+  try {
+    return await deps.router.executeSwap(dex, swap, quotedPrice, limits);
+  } catch (err) {
+    if (!(err instanceof SwapLimitExceededError)) throw err;
+    deps.logger.warn('slippage.exceeded', { orderId: order.orderId, dex, quotedPrice, ...limits, rejected: true });
+    throw new SlippageExceededError(err.detail, order.slippageBps);
+  }
+}
+
+/**
+ * Hops run in order, each spending what the previous one received. Slippage bounds the compound price, so only
+ * the last hop carries a limit: whatever minimum the earlier hops' fills leave it. A hop that fails after an
+ * earlier one landed fails the order with PartialExecutionError, since a retry would spend tokenIn again.
+ */
+async function executeHops(
+  deps: OrderWorkerDeps,
+  order: Order,
+  hops: RouteHop[],
+  minCompoundPrice: number
+): Promise<OrderLeg[]> {
+  const legs: OrderLeg[] = [];
+  let amount = order.amount;
+  for (const [i, { tokenIn, tokenOut, chosen }] of hops.entries()) {
+    const earlier = legs.reduce((p, l) => p * l.executedPrice, 1);
+    const limits = i === hops.length - 1 ? { minPrice: minCompoundPrice / earlier } : {};
+    const swap = { ...order, tokenIn, tokenOut, amount };
+    let exec: SwapExecutionResult;
+    try {
+      exec = await executeWithinLimits(deps, order, chosen.dex, swap, chosen.price, limits);
+    } catch (err) {
+      if (legs.length === 0) throw err;
+      deps.logger.warn('order.partial_execution', { orderId: order.orderId, landed: legs.length, hops: hops.length });
+      throw new PartialExecutionError(legs, hops.length, err);
+    }
+    legs.push({ ...exec, tokenIn, tokenOut, amount });
+    checkLanded(legs, () => assertFilled(deps, order, amount, exec));
+    amount = exec.amountOut;
+  }
+  return legs;
+}
+
+/**
+ * Stands in for a routing decision on orders placed against a dry-run quote, which always execute whole on the
+ * quoted venue.
+ */
+type QuotedDecision = Pick<RoutingDecision, 'split' | 'hops' | 'reasons'> & {
+  chosen: Pick<DexQuote, 'dex' | 'price' | 'requiredAmountIn'>;
+};
+
+function quotedDecision(dex: DexName, price: number): QuotedDecision {
+  return { chosen: { dex, price } };
+}
+
+function isRoutingDecision(decision: RoutingDecision | QuotedDecision): decision is RoutingDecision {
+  return 'quotes' in decision;
+}
+
+/**
+ * A venue and the share of the order it will execute, with the quote the slippage check is measured from.
+ */
+type PlannedLeg = Pick<DexQuote, 'dex' | 'amount' | 'price' | 'requiredAmountIn'>;
+
+function planLegs(order: Order, decision: RoutingDecision | QuotedDecision): PlannedLeg[] {
+  if (decision.split) {
+    return decision.split.legs.map(({ dex, amount, price, requiredAmountIn }) => ({
+      dex,
+      amount,
+      price,
+      requiredAmountIn
+    }));
+  }
+  const { dex, price, requiredAmountIn } = decision.chosen;
+  return [{ dex, amount: order.amount, price, requiredAmountIn }];
+}
+
+/**
+ * What a venue is told to enforce for one leg: the input cap for exact_out, otherwise the minimum price.
+ */
+function slippageLimits(order: Order, leg: PlannedLeg): SwapLimits {
+  if (order.swapMode === 'exact_out' && leg.requiredAmountIn !== undefined) {
+    return { maxAmountIn: computeMaxAmountIn(leg.requiredAmountIn, order.slippageBps) };
+  }
+  return { minPrice: computeMinAcceptablePrice(leg.price, order.slippageBps) };
+}
+
+/**
+ * Fills that land outside the limits anyway, like a price gap after the venue's check, still fail the order.
+ */
+function assertWithinSlippage(deps: OrderWorkerDeps, order: Order, leg: PlannedLeg, exec: SwapExecutionResult): void {
+  const orderId = order.orderId;
+  const quotedAmountIn = leg.requiredAmountIn;
+  if (order.swapMode === 'exact_out' && quotedAmountIn !== undefined) {
+    const maxAmountIn = computeMaxAmountIn(quotedAmountIn, order.slippageBps);
+    if (exec.amountIn > maxAmountIn) {
+      deps.logger.warn('slippage.exceeded', {
+        orderId,
+        dex: exec.dex,
+        quotedAmountIn,
+        amountIn: exec.amountIn,
+        maxAmountIn
+      });
+      throw new SlippageExceededError(`amountIn ${exec.amountIn} above maximum ${maxAmountIn}`, order.slippageBps);
+    }
+    return;
+  }
+  const minPrice = computeMinAcceptablePrice(leg.price, order.slippageBps);
+  if (exec.executedPrice < minPrice) {
+    deps.logger.warn('slippage.exceeded', {
+      orderId,
+      dex: exec.dex,
+      quotedPrice: leg.price,
+      executedPrice: exec.executedPrice,
+      minPrice
     });
+    const detail = `executedPrice ${exec.executedPrice} below minimum ${minPrice}`;
+    throw new SlippageExceededError(detail, order.slippageBps);
+  }
+}
+
+/**
+ * The fixed side of a leg (input for exact_in, output for exact_out) must fill in full, except on `ioc` orders,
+ * which keep whatever filled and confirm with the amounts that actually moved.
+ */
+function assertFilled(deps: OrderWorkerDeps, order: Order, requested: number, exec: SwapExecutionResult): void {
+  const filled = order.swapMode === 'exact_out' ? exec.amountOut : exec.amountIn;
+  if (filled >= requested * (1 - 1e-9)) return;
+  const accepted = order.timeInForce === 'ioc';
+  deps.logger.warn('order.partial_fill', { orderId: order.orderId, dex: exec.dex, filled, requested, accepted });
+  if (!accepted) throw new PartialFillError(exec.dex, filled, requested);
+}
+
+/**
+ * Runs checks on swaps that have already landed. A failing check carries `legs`, so the failed order records
+ * them.
+ */
+function checkLanded(legs: OrderLeg[], check: () => void): void {
+  try {
+    check();
+  } catch (err) {
+    if (err instanceof LandedSwapsError) err.legs = legs;
+    throw err;
+  }
+}
+
+/**
+ * One attempt at executing the order. Every attempt routes afresh; `context` carries the previous attempt's route
+ * so a retry that lands on another venue is reported as `requoted`.
+ */
+export async function processOrderOnce(
+  deps: OrderWorkerDeps,
+  queued: Order,
+  context: AttemptContext = {}
+): Promise<void> {
+  const orderId = queued.orderId;
+
+  if (isPastDeadline(queued)) {
+    await expireOrder(deps, orderId, `deadlineMs ${queued.deadlineMs} passed before routing`);
+    return;
+  }
+
+  // Lifecycle transitions that a cancel or amendment may race with happen under the order lock.
+  const locked = await withOrderLock(deps.activeStore, orderId, async () => {
+    const current = await deps.activeStore.listEvents(orderId);
+    // A trigger can land after a cancel, so a cancelled order is checked for anywhere in its history.
+    if (isFinalStatus(lastStatus(current)) || hasStatus(current, 'cancelled')) return null;
+    // Amendments are only accepted before routing, so the order read here is the one that executes.
+    const latest = (await deps.activeStore.getActiveOrder(orderId)) ?? queued;
+    if (!hasStatus(current, 'routing')) {
+      await emitEvent({
+        activeStore: deps.activeStore,
+        eventBus: deps.eventBus,
+        ttlSeconds: deps.activeOrderTtlSeconds,
+        event: { orderId, status: 'routing', tsMs: nowMs() }
+      });
+    }
+    return { events: current, order: latest };
+  });
+  if (!locked) return;
+  const { events, order } = locked;
+
+  // Orders placed against a dry-run quote keep its venue and price; the quote's own TTL bounds its age.
+  const routed =
+    order.quotedDex !== undefined && order.quotedPrice !== undefined
+      ? quotedDecision(order.quotedDex, order.quotedPrice)
+      : await routeOrder(deps, order);
+  if (routed === 'cancelled' || routed === 'resting') return;
+  if ('expired' in routed) {
+    await expireOrder(deps, orderId, routed.expired);
+    return;
+  }
+  let decision: RoutingDecision | QuotedDecision = routed;
+  if (isRoutingDecision(decision)) {
+    const route = summarizeRoute(decision);
+    if (context.route) await noteRequote(deps, orderId, 'retry', context.route, route);
+    context.route = route;
+  }
+  if (decision.reasons) {
+    await deps.db.recordRoutingReasons({ orderId, reasons: decision.reasons, updatedAtMs: nowMs() });
+  }
+
+  const proceed = await withOrderLock(deps.activeStore, orderId, async () => {
+    const current = await deps.activeStore.listEvents(orderId);
+    if (hasStatus(current, 'cancelled')) return false;
+    if (!hasStatus(current, 'building')) {
+      await emitEvent({
+        activeStore: deps.activeStore,
+        eventBus: deps.eventBus,
+        ttlSeconds: deps.activeOrderTtlSeconds,
+        event: { orderId, status: 'building', tsMs: nowMs() }
+      });
+    }
+    return true;
+  });
+  if (!proceed) {
+    deps.logger.info('order.skipped_cancelled', { orderId });
+    return;
   }
 
   await (deps.sleeper ?? realSleeper).sleep(150);
 
+  if (isPastDeadline(order)) {
+    await expireOrder(deps, orderId, `deadlineMs ${order.deadlineMs} passed before submission`);
+    return;
+  }
+
+  const quotedAtMs = isRoutingDecision(decision) ? oldestQuoteAtMs(decision) : undefined;
+  const maxQuoteAgeMs = deps.maxQuoteAgeMs ?? MAX_QUOTE_AGE_MS;
+  if (context.route && quotedAtMs !== undefined && nowMs() - quotedAtMs > maxQuoteAgeMs) {
+    deps.logger.info('quote.stale', { orderId, ageMs: nowMs() - quotedAtMs, maxQuoteAgeMs });
+    // Past `building` the order can no longer be cancelled, so a limit order that misses its price here expires
+    // rather than resting again.
+    const fresh = await deps.router.route(order);
+    if (order.type === 'limit' && fresh.chosen.effectivePrice < (order.limitPrice ?? 0)) {
+      const reason = `limitPrice ${order.limitPrice} no longer reached when re-quoting a stale route`;
+      await expireOrder(deps, orderId, reason);
+      return;
+    }
+    const route = summarizeRoute(fresh);
+    await noteRequote(deps, orderId, 'stale_quote', context.route, route);
+    context.route = route;
+    decision = fresh;
+    if (fresh.reasons) {
+      await deps.db.recordRoutingReasons({ orderId, reasons: fresh.reasons, updatedAtMs: nowMs() });
+    }
+  }
+
   if (!hasStatus(events, 'submitted')) {
     await emitEvent({
       activeStore: deps.activeStore,
@@ -92,7 +619,45 @@ export async function processOrderOnce(deps: OrderWorkerDeps, order: Order): Pro
     });
   }
 
-  const exec = await deps.router.executeSwap(decision.chosen.dex, order, decision.chosen.price);
+  let legs: OrderLeg[];
+  let exec: SwapExecutionResult;
+  if (decision.hops) {
+    const minCompoundPrice = computeMinAcceptablePrice(decision.chosen.price, order.slippageBps);
+    legs = await executeHops(deps, order, decision.hops, minCompoundPrice);
+    exec = summarizeHops(legs);
+    // Per-hop drift can offset, so slippage applies to the compound price.
+    const compound = { ...decision.chosen, amount: order.amount };
+    checkLanded(legs, () => assertWithinSlippage(deps, order, compound, exec));
+  } else {
+    // Split legs are independent swaps, so they are submitted side by side.
+    const planned = planLegs(order, decision);
+    const settled = await Promise.allSettled(
+      planned.map((leg) => {
+        const swap = { ...order, amount: leg.amount };
+        return executeWithinLimits(deps, order, leg.dex, swap, leg.price, slippageLimits(order, leg));
+      })
+    );
+    const failed = settled.find((r): r is PromiseRejectedResult => r.status === 'rejected');
+    if (failed) {
+      const landed = settled.flatMap((r, i) =>
+        r.status === 'fulfilled'
+          ? [{ ...r.value, tokenIn: order.tokenIn, tokenOut: order.tokenOut, amount: planned[i].amount }]
+          : []
+      );
+      if (landed.length === 0) throw failed.reason;
+      deps.logger.warn('order.partial_execution', { orderId, landed: landed.length, legs: planned.length });
+      throw new PartialExecutionError(landed, planned.length, failed.reason);
+    }
+    const execs = settled.map((r) => (r as PromiseFulfilledResult<SwapExecutionResult>).value);
+    legs = execs.map((e, i) => ({ ...e, tokenIn: order.tokenIn, tokenOut: order.tokenOut, amount: planned[i].amount }));
+    checkLanded(legs, () =>
+      planned.forEach((leg, i) => {
+        assertFilled(deps, order, leg.amount, execs[i]);
+        assertWithinSlippage(deps, order, leg, execs[i]);
+      })
+    );
+    exec = summarizeLegs(legs);
+  }
 
   const updatedAtMs = nowMs();
   await deps.db.finalizeOrder({
@@ -100,6 +665,9 @@ export async function processOrderOnce(deps: OrderWorkerDeps, order: Order): Pro
     dex: exec.dex,
     executedPrice: exec.executedPrice,
     txHash: exec.txHash,
+    amountIn: exec.amountIn,
+    amountOut: exec.amountOut,
+    legs,
     updatedAtMs
   });
 
@@ -115,18 +683,152 @@ export async function processOrderOnce(deps: OrderWorkerDeps, order: Order): Pro
         tsMs: updatedAtMs,
         dex: exec.dex,
         executedPrice: exec.executedPrice,
-        txHash: exec.txHash
+        txHash: exec.txHash,
+        amountIn: exec.amountIn,
+        amountOut: exec.amountOut,
+        legs
       }
     });
   }
 }
 
+export function twapChildOrderId(parentOrderId: string, sliceIndex: number): string {
+  return `${parentOrderId}-slice-${sliceIndex + 1}`;
+}
+
+/**
+ * Splits a twap parent into equal child market orders and enqueues them with increasing delays so they
+ * execute spread over the parent's duration. Child ids are deterministic, so a re-run is a no-op.
+ */
+export async function scheduleTwapSlices(deps: OrderWorkerDeps, parent: Order): Promise<void> {
+  const queue = deps.queue;
+  if (!queue) throw new Error('TWAP scheduling requires a queue client');
+  // Under the parent's lock a cancel either lands before scheduling, which then skips it, or after every slice
+  // exists, so it can stop them all.
+  await withOrderLock(deps.activeStore, parent.orderId, async () => {
+    const events = await deps.activeStore.listEvents(parent.orderId);
+    if (hasStatus(events, 'progress') || hasStatus(events, 'cancelled')) return;
+
+    const slices = parent.twapSlices ?? 1;
+    const intervalMs = Math.floor((parent.twapDurationMs ?? 0) / slices);
+    const sliceAmount = parent.amount / slices;
+
+    for (let i = 0; i < slices; i++) {
+      const isLast = i === slices - 1;
+      const child: Order = {
+        orderId: twapChildOrderId(parent.orderId, i),
+        type: 'market',
+        tokenIn: parent.tokenIn,
+        tokenOut: parent.tokenOut,
+        // The last slice absorbs rounding so children always sum to the parent amount.
+        amount: isLast ? parent.amount - sliceAmount * (slices - 1) : sliceAmount,
+        slippageBps: parent.slippageBps,
+        swapMode: parent.swapMode,
+        // Slices route independently, under the parent's venue rules.
+        excludeDexes: parent.excludeDexes,
+        pinnedDex: parent.pinnedDex,
+        routingObjective: parent.routingObjective,
+        priorityFeeMicroLamports: parent.priorityFeeMicroLamports,
+        parentOrderId: parent.orderId,
+        createdAtMs: nowMs()
+      };
+      const delayMs = i * intervalMs;
+      // A slice must still be active when its delayed job runs, so its TTL starts counting once it is due.
+      const ttlSeconds = deps.activeOrderTtlSeconds + Math.ceil(delayMs / 1000);
+      await deps.activeStore.putActiveOrder(child, ttlSeconds);
+      await deps.db.insertOrder(child);
+      await queue.enqueue({ orderId: child.orderId }, { delayMs });
+      await emitEvent({
+        activeStore: deps.activeStore,
+        eventBus: deps.eventBus,
+        ttlSeconds,
+        event: { orderId: child.orderId, status: 'pending', tsMs: nowMs() }
+      });
+    }
+
+    deps.logger.info('twap.scheduled', { orderId: parent.orderId, slices, intervalMs });
+    await emitEvent({
+      activeStore: deps.activeStore,
+      eventBus: deps.eventBus,
+      ttlSeconds: deps.activeOrderTtlSeconds,
+      event: {
+        orderId: parent.orderId,
+        status: 'progress',
+        tsMs: nowMs(),
+        filledAmount: 0,
+        averagePrice: null,
+        slicesFilled: 0,
+        slicesFailed: 0,
+        slicesRemaining: slices
+      }
+    });
+  });
+}
+
+export function computeTwapProgress(children: OrderFinalRecord[]): TwapProgress {
+  const filled = children.filter((c) => c.status === 'confirmed' && c.executedPrice !== null);
+  const filledAmount = filled.reduce((sum, c) => sum + c.amount, 0);
+  const notional = filled.reduce((sum, c) => sum + c.amount * (c.executedPrice as number), 0);
+  const slicesFailed = children.filter(
+    (c) => c.status === 'failed' || c.status === 'expired' || c.status === 'cancelled'
+  ).length;
+  return {
+    filledAmount,
+    averagePrice: filledAmount > 0 ? notional / filledAmount : null,
+    slicesFilled: filled.length,
+    slicesFailed,
+    slicesRemaining: children.length - filled.length - slicesFailed
+  };
+}
+
+/**
+ * Called after each TWAP child settles: publishes the parent's aggregate progress and, once no slices
+ * remain, completes the parent at the volume-weighted average price (or fails it if nothing filled). Runs under
+ * the parent's lock, so slices that settle together cannot both finish the parent.
+ */
+export async function settleTwapParent(deps: OrderWorkerDeps, parentOrderId: string): Promise<void> {
+  await withOrderLock(deps.activeStore, parentOrderId, async () => {
+    if (isFinalStatus(lastStatus(await deps.activeStore.listEvents(parentOrderId)))) return;
+
+    const progress = computeTwapProgress(await deps.db.listChildOrders(parentOrderId));
+    const tsMs = nowMs();
+    await emitEvent({
+      activeStore: deps.activeStore,
+      eventBus: deps.eventBus,
+      ttlSeconds: deps.activeOrderTtlSeconds,
+      event: { orderId: parentOrderId, status: 'progress', tsMs, ...progress }
+    });
+    if (progress.slicesRemaining > 0) return;
+
+    if (progress.averagePrice === null) {
+      const error = `All ${progress.slicesFailed} TWAP slices failed`;
+      await deps.db.failOrder({ orderId: parentOrderId, failureReason: error, updatedAtMs: tsMs });
+      await emitEvent({
+        activeStore: deps.activeStore,
+        eventBus: deps.eventBus,
+        ttlSeconds: deps.activeOrderTtlSeconds,
+        event: { orderId: parentOrderId, status: 'failed', tsMs, error }
+      });
+      return;
+    }
+
+    await deps.db.completeOrder({ orderId: parentOrderId, averagePrice: progress.averagePrice, updatedAtMs: tsMs });
+    await emitEvent({
+      activeStore: deps.activeStore,
+      eventBus: deps.eventBus,
+      ttlSeconds: deps.activeOrderTtlSeconds,
+      event: { orderId: parentOrderId, status: 'completed', tsMs, ...progress }
+    });
+  });
+}
+
 export async function runWithRetries(opts: {
   maxAttempts: number;
   baseBackoffMs: number;
   sleeper: Sleeper;
   logger: Logger;
   run: (attempt: number) => Promise<void>;
+  shouldRetry?: (err: unknown) => boolean;
 }): Promise<void> {
   for (let attempt = 1; attempt <= opts.maxAttempts; attempt++) {
     try {
@@ -134,7 +836,7 @@ export async function runWithRetries(opts: {
       return;
     } catch (err) {
       const msg = err instanceof Error ? err.message : String(err);
-      const isFinal = attempt >= opts.maxAttempts;
+      const isFinal = attempt >= opts.maxAttempts || opts.shouldRetry?.(err) === false;
       if (isFinal) throw err;
       const waitMs = computeExponentialBackoffMs(attempt + 1, opts.baseBackoffMs);
       opts.logger.warn('retry.scheduled', { attempt, nextAttempt: attempt + 1, waitMs, error: msg });
@@ -143,11 +845,40 @@ export async function runWithRetries(opts: {
   }
 }
 
+/**
+ * Fails a TWAP slice whose active entry is gone by the time its job runs and settles the parent with it, so the
+ * parent still finishes. Anything other than a pending slice is left as it is.
+ */
+async function failMissingTwapSlice(deps: OrderWorkerDeps, orderId: string, error: string): Promise<void> {
+  const stored = await deps.db.getOrder(orderId);
+  if (!stored?.parentOrderId || stored.status !== 'pending') return;
+
+  const updatedAtMs = nowMs();
+  await deps.db.failOrder({ orderId, failureReason: error, updatedAtMs });
+  await emitEvent({
+    activeStore: deps.activeStore,
+    eventBus: deps.eventBus,
+    ttlSeconds: deps.activeOrderTtlSeconds,
+    event: { orderId, status: 'failed', tsMs: updatedAtMs, error }
+  });
+  await settleTwapParent(deps, stored.parentOrderId);
+}
+
 export async function executeOrderJob(deps: OrderWorkerDeps, orderId: string): Promise<void> {
   const sleeper = deps.sleeper ?? realSleeper;
   const order = await deps.activeStore.getActiveOrder(orderId);
-  if (!order) throw new Error(`Active order not found: ${orderId}`);
+  if (!order) {
+    const error = `Active order not found: ${orderId}`;
+    await failMissingTwapSlice(deps, orderId, error);
+    throw new Error(error);
+  }
+
+  if (order.type === 'twap') {
+    await scheduleTwapSlices(deps, order);
+    return;
+  }
 
+  const context: AttemptContext = {};
   try {
     await runWithRetries({
       maxAttempts: ORDER_MAX_ATTEMPTS,
@@ -155,15 +886,25 @@ export async function executeOrderJob(deps: OrderWorkerDeps, orderId: string): P
       sleeper,
       logger: deps.logger,
       run: async () => {
-        await processOrderOnce({ ...deps, sleeper }, order);
-      }
+        await processOrderOnce({ ...deps, sleeper }, order, context);
+      },
+      shouldRetry: (err) =>
+        !(err instanceof SlippageExceededError) &&
+        !(err instanceof NoRouteError) &&
+        !(err instanceof PartialFillError) &&
+        !(err instanceof PartialExecutionError) &&
+        !isImmediateOrder(order)
     });
   } catch (err) {
+    const events = await deps.activeStore.listEvents(orderId);
+    // A cancelled order's routing error is moot; it keeps its cancelled status.
+    if (hasStatus(events, 'cancelled')) return;
+
     const failureReason = err instanceof Error ? err.message : String(err);
     const updatedAtMs = nowMs();
-    await deps.db.failOrder({ orderId, failureReason, updatedAtMs });
+    const legs = err instanceof LandedSwapsError ? err.legs : undefined;
+    await deps.db.failOrder({ orderId, failureReason, legs, updatedAtMs });
 
-    const events = await deps.activeStore.listEvents(orderId);
     if (!hasStatus(events, 'failed')) {
       await emitEvent({
         activeStore: deps.activeStore,
@@ -172,8 +913,11 @@ export async function executeOrderJob(deps: OrderWorkerDeps, orderId: string): P
         event: { orderId, status: 'failed', tsMs: updatedAtMs, error: failureReason }
       });
     }
+    if (order.parentOrderId) await settleTwapParent(deps, order.parentOrderId);
     throw err;
   }
+
+  if (order.parentOrderId) await settleTwapParent(deps, order.parentOrderId);
 }
 
 export function createOrderWorker(deps: OrderWorkerDeps): Worker {
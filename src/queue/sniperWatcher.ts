@@ -0,0 +1,112 @@
+import type { ActiveOrderStore, Db, EventBus, Logger, QueueClient, TokenLaunchEvent } from '../types';
+import { MockLaunchFeed } from '../dex/mockLaunchFeed';
+import { withOrderLock } from '../services/orderService';
+import { emitEvent, expireDroppedArmedOrder } from './orderWorker';
+
+export interface SniperWatcherDeps {
+  activeStore: ActiveOrderStore;
+  eventBus: EventBus;
+  db: Db;
+  queue: QueueClient;
+  launchFeed: MockLaunchFeed;
+  logger: Logger;
+  activeOrderTtlSeconds: number;
+  /** How often armed sniper orders get their active TTL refreshed; defaults to a quarter of that TTL. */
+  refreshIntervalMs?: number;
+}
+
+/**
+ * Fires armed sniper orders when a launch event arrives for their `tokenOut`: each matching order is
+ * disarmed, gets a `triggered` event and is enqueued for immediate execution by the worker. Between launches
+ * it keeps armed sniper orders' active entries alive, so they stay armed and cancellable however long they wait.
+ */
+export class SniperWatcher {
+  private readonly deps: SniperWatcherDeps;
+  private unsubscribe: (() => void) | null = null;
+  private timer: NodeJS.Timeout | null = null;
+  private refreshing = false;
+
+  public constructor(deps: SniperWatcherDeps) {
+    this.deps = deps;
+  }
+
+  public async onLaunch(launch: TokenLaunchEvent): Promise<string[]> {
+    const fired: string[] = [];
+    const orderIds = await this.deps.activeStore.listArmedOrders();
+    for (const orderId of orderIds) {
+      const order = await this.deps.activeStore.getActiveOrder(orderId);
+      if (!order) {
+        await expireDroppedArmedOrder(this.deps, orderId);
+        continue;
+      }
+      if (order.type !== 'sniper' || order.tokenOut !== launch.token) continue;
+
+      // Only the watcher that wins the disarm may fire the order, and a cancel cannot slip in between.
+      const won = await withOrderLock(this.deps.activeStore, orderId, async () => {
+        if (!(await this.deps.activeStore.disarmOrder(orderId))) return false;
+
+        this.deps.logger.info('sniper.fired', { orderId, token: launch.token, poolId: launch.poolId });
+        await emitEvent({
+          activeStore: this.deps.activeStore,
+          eventBus: this.deps.eventBus,
+          ttlSeconds: this.deps.activeOrderTtlSeconds,
+          event: { orderId, status: 'triggered', tsMs: Date.now(), launchToken: launch.token, poolId: launch.poolId }
+        });
+        await this.deps.queue.enqueue({ orderId });
+        return true;
+      });
+      if (won) fired.push(orderId);
+    }
+    return fired;
+  }
+
+  /** Refreshes the active TTL of every armed sniper order and expires any whose active entry is already gone. */
+  public async refreshOnce(): Promise<void> {
+    const orderIds = await this.deps.activeStore.listArmedOrders();
+    for (const orderId of orderIds) {
+      try {
+        const order = await this.deps.activeStore.getActiveOrder(orderId);
+        if (!order) {
+          await expireDroppedArmedOrder(this.deps, orderId);
+          continue;
+        }
+        if (order.type !== 'sniper') continue;
+        await this.deps.activeStore.putActiveOrder(order, this.deps.activeOrderTtlSeconds);
+      } catch (err) {
+        this.deps.logger.error('sniper.refresh_failed', { orderId, err: String(err) });
+      }
+    }
+  }
+
+  public start(): void {
+    if (!this.timer) {
+      this.timer = setInterval(() => {
+        if (this.refreshing) return;
+        this.refreshing = true;
+        this.refreshOnce()
+          .catch((err) => this.deps.logger.error('sniper.refresh_failed', { err: String(err) }))
+          .finally(() => {
+            this.refreshing = false;
+          });
+      }, this.deps.refreshIntervalMs ?? (this.deps.activeOrderTtlSeconds * 1000) / 4);
+    }
+    if (this.unsubscribe) return;
+    this.unsubscribe = this.deps.launchFeed.subscribe(async (launch) => {
+      try {
+        await this.onLaunch(launch);
+      } catch (err) {
+        this.deps.logger.error('sniper.launch_failed', { token: launch.token, err: String(err) });
+      }
+    });
+  }
+
+  public stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+    if (!this.unsubscribe) return;
+    this.unsubscribe();
+    this.unsubscribe = null;
+  }
+}
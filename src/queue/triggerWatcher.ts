@@ -0,0 +1,112 @@
+import type { ActiveOrderStore, Db, DexQuote, EventBus, Logger, Order, QueueClient } from '../types';
+import { MockDexRouter } from '../dex/mockDexRouter';
+import { withOrderLock } from '../services/orderService';
+import { emitEvent, expireDroppedArmedOrder } from './orderWorker';
+
+export const TRIGGER_POLL_INTERVAL_MS = 2_000;
+
+export interface TriggerWatcherDeps {
+  activeStore: ActiveOrderStore;
+  eventBus: EventBus;
+  db: Db;
+  queue: QueueClient;
+  router: MockDexRouter;
+  logger: Logger;
+  activeOrderTtlSeconds: number;
+  pollIntervalMs?: number;
+}
+
+export function isTriggerHit(order: Order, quote: DexQuote): boolean {
+  if (order.triggerPrice === undefined) return false;
+  if (order.type === 'stop_loss') return quote.effectivePrice <= order.triggerPrice;
+  if (order.type === 'take_profit') return quote.effectivePrice >= order.triggerPrice;
+  return false;
+}
+
+/**
+ * Watches armed stop_loss / take_profit orders by re-quoting them through the router. Once an order's
+ * trigger is hit it is disarmed, a `triggered` event is emitted and the order is enqueued, so it
+ * executes as a market order through the regular executeOrderJob path. Each poll refreshes a waiting order's
+ * active-store TTL, so it stays triggerable and cancellable however long it waits.
+ */
+export class TriggerWatcher {
+  private readonly deps: TriggerWatcherDeps;
+  private timer: NodeJS.Timeout | null = null;
+  private polling = false;
+
+  public constructor(deps: TriggerWatcherDeps) {
+    this.deps = deps;
+  }
+
+  public async pollOnce(): Promise<void> {
+    const orderIds = await this.deps.activeStore.listArmedOrders();
+    for (const orderId of orderIds) {
+      try {
+        await this.checkOrder(orderId);
+      } catch (err) {
+        const msg = err instanceof Error ? err.message : String(err);
+        this.deps.logger.error('trigger.check_failed', { orderId, err: msg });
+      }
+    }
+  }
+
+  private async checkOrder(orderId: string): Promise<void> {
+    const order = await this.deps.activeStore.getActiveOrder(orderId);
+    if (!order) {
+      // The active order expired out of the store (say, while no watcher ran); nothing is left to trigger.
+      await expireDroppedArmedOrder(this.deps, orderId);
+      return;
+    }
+    // Sniper orders share the armed set but fire on launch events, not price.
+    if (order.type !== 'stop_loss' && order.type !== 'take_profit') return;
+    await this.deps.activeStore.putActiveOrder(order, this.deps.activeOrderTtlSeconds);
+
+    const decision = await this.deps.router.route(order);
+    if (!isTriggerHit(order, decision.chosen)) return;
+
+    // Only the watcher that wins the disarm may trigger the order, and a cancel cannot slip in between.
+    await withOrderLock(this.deps.activeStore, orderId, async () => {
+      if (!(await this.deps.activeStore.disarmOrder(orderId))) return;
+
+      this.deps.logger.info('trigger.hit', {
+        orderId,
+        type: order.type,
+        triggerPrice: order.triggerPrice,
+        effectivePrice: decision.chosen.effectivePrice
+      });
+      await emitEvent({
+        activeStore: this.deps.activeStore,
+        eventBus: this.deps.eventBus,
+        ttlSeconds: this.deps.activeOrderTtlSeconds,
+        event: {
+          orderId,
+          status: 'triggered',
+          tsMs: Date.now(),
+          triggerPrice: order.triggerPrice as number,
+          effectivePrice: decision.chosen.effectivePrice,
+          dex: decision.chosen.dex
+        }
+      });
+      await this.deps.queue.enqueue({ orderId });
+    });
+  }
+
+  public start(): void {
+    if (this.timer) return;
+    this.timer = setInterval(() => {
+      if (this.polling) return;
+      this.polling = true;
+      this.pollOnce()
+        .catch((err) => this.deps.logger.error('trigger.poll_failed', { err: String(err) }))
+        .finally(() => {
+          this.polling = false;
+        });
+    }, this.deps.pollIntervalMs ?? TRIGGER_POLL_INTERVAL_MS);
+  }
+
+  public stop(): void {
+    if (!this.timer) return;
+    clearInterval(this.timer);
+    this.timer = null;
+  }
+}
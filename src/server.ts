@@ -4,6 +4,9 @@ import IORedis from 'ioredis';
 
 import type { ActiveOrderStore, Db, EventBus, Logger, QueueClient, SocketMappingStore } from './types';
 import { createOrdersApi } from './api/orders';
+import { createAdminApi } from './api/admin';
+import { createQuotesApi } from './api/quotes';
+import { createVenuesApi } from './api/venues';
 import { createOrderSocket } from './ws/orderSocket';
 import { createRuntimePgDb } from './db';
 import {
@@ -13,8 +16,16 @@ import {
   RedisSocketMappingStore
 } from './services/orderService';
 import { MockDexRouter } from './dex/mockDexRouter';
+import { createConstantProductDexRegistry } from './dex/constantProductAdapter';
+import { MockLaunchFeed } from './dex/mockLaunchFeed';
+import { DEFAULT_BASE_FEE_LAMPORTS } from './dex/networkFees';
+import { DEFAULT_QUOTE_CACHE_TTL_MS, QuoteCache } from './dex/quoteCache';
+import { DEFAULT_CIRCUIT_COOLDOWN_MS, DEFAULT_VENUE_QUOTE_TIMEOUT_MS, VenueHealth } from './dex/venueHealth';
+import { loadScenarioFromEnv, scenarioRegistryOptions } from './dex/scenario';
 import { BullMqQueueClient, createOrderQueue } from './queue/orderQueue';
-import { createOrderWorker } from './queue/orderWorker';
+import { createOrderWorker, MAX_QUOTE_AGE_MS } from './queue/orderWorker';
+import { TriggerWatcher } from './queue/triggerWatcher';
+import { SniperWatcher } from './queue/sniperWatcher';
 
 export interface ServerDeps {
   logger: Logger;
@@ -26,6 +37,12 @@ export interface ServerDeps {
   activeOrderTtlSeconds: number;
   startWorker: boolean;
   connectionForBullMq: unknown;
+  launchFeed?: MockLaunchFeed;
+  router?: MockDexRouter;
+  /**
+   * Quote age past which the worker re-quotes before submitting.
+   */
+  maxQuoteAgeMs?: number;
 }
 
 export async function buildServer(deps: ServerDeps): Promise<FastifyInstance> {
@@ -48,7 +65,14 @@ export async function buildServer(deps: ServerDeps): Promise<FastifyInstance> {
 
   await deps.db.initSchema();
 
-  await app.register(createOrdersApi(deps), {});
+  const launchFeed = deps.launchFeed ?? new MockLaunchFeed({ logger: deps.logger });
+  // Shared by the quotes API and the worker, so dry-run quotes come from the same venues orders execute on.
+  const router = deps.router ?? new MockDexRouter({ logger: deps.logger, scenario: loadScenarioFromEnv() });
+
+  await app.register(createOrdersApi({ ...deps, dexNames: router.registry.names() }), {});
+  await app.register(createQuotesApi({ logger: deps.logger, router, activeStore: deps.activeStore }), {});
+  await app.register(createVenuesApi({ router }), {});
+  await app.register(createAdminApi({ logger: deps.logger, launchFeed, router }), {});
   await app.register(
     createOrderSocket({
       logger: deps.logger,
@@ -61,7 +85,6 @@ export async function buildServer(deps: ServerDeps): Promise<FastifyInstance> {
   );
 
   if (deps.startWorker) {
-    const router = new MockDexRouter({ logger: deps.logger });
     const worker = createOrderWorker({
       connection: deps.connectionForBullMq,
       activeStore: deps.activeStore,
@@ -69,10 +92,36 @@ export async function buildServer(deps: ServerDeps): Promise<FastifyInstance> {
       db: deps.db,
       router,
       logger: deps.logger,
+      activeOrderTtlSeconds: deps.activeOrderTtlSeconds,
+      queue: deps.queue,
+      maxQuoteAgeMs: deps.maxQuoteAgeMs
+    });
+
+    const triggerWatcher = new TriggerWatcher({
+      activeStore: deps.activeStore,
+      eventBus: deps.eventBus,
+      db: deps.db,
+      queue: deps.queue,
+      router,
+      logger: deps.logger,
+      activeOrderTtlSeconds: deps.activeOrderTtlSeconds
+    });
+    triggerWatcher.start();
+
+    const sniperWatcher = new SniperWatcher({
+      activeStore: deps.activeStore,
+      eventBus: deps.eventBus,
+      db: deps.db,
+      queue: deps.queue,
+      launchFeed,
+      logger: deps.logger,
       activeOrderTtlSeconds: deps.activeOrderTtlSeconds
     });
+    sniperWatcher.start();
 
     app.addHook('onClose', async () => {
+      triggerWatcher.stop();
+      sniperWatcher.stop();
       await worker.close();
     });
   }
@@ -99,6 +148,33 @@ function optionalInt(name: string, fallback: number): number {
   return Number.isFinite(n) ? n : fallback;
 }
 
+/**
+ * MOCK_DEX_MODEL selects how the mock venues price swaps: 'constant_product' (default) backs them with x·y=k pools
+ * that executions move; 'variance' quotes a fixed base price with random per-quote variance. MOCK_DEX_SCENARIO
+ * optionally names a scenario file that seeds either model and tunes its venues. NETWORK_BASE_FEE_LAMPORTS
+ * overrides the per-transaction base fee the router deducts when comparing venues. QUOTE_CACHE_TTL_MS sets how
+ * long venue quotes are shared between routes (0 disables the cache). VENUE_QUOTE_TIMEOUT_MS bounds each venue's
+ * quote and VENUE_CIRCUIT_COOLDOWN_MS how long an unhealthy venue stays out of routing.
+ */
+function createRouterFromEnv(logger: Logger): MockDexRouter {
+  const model = process.env.MOCK_DEX_MODEL ?? 'constant_product';
+  if (model !== 'variance' && model !== 'constant_product') throw new Error(`Unknown MOCK_DEX_MODEL: ${model}`);
+  const scenario = loadScenarioFromEnv();
+  if (scenario) {
+    logger.info('scenario.loaded', { path: process.env.MOCK_DEX_SCENARIO, seed: scenario.seed, model });
+  }
+  const networkFees = { baseFeeLamports: optionalInt('NETWORK_BASE_FEE_LAMPORTS', DEFAULT_BASE_FEE_LAMPORTS) };
+  const quoteCache = new QuoteCache({ ttlMs: optionalInt('QUOTE_CACHE_TTL_MS', DEFAULT_QUOTE_CACHE_TTL_MS) });
+  const venueHealth = new VenueHealth({
+    logger,
+    quoteTimeoutMs: optionalInt('VENUE_QUOTE_TIMEOUT_MS', DEFAULT_VENUE_QUOTE_TIMEOUT_MS),
+    cooldownMs: optionalInt('VENUE_CIRCUIT_COOLDOWN_MS', DEFAULT_CIRCUIT_COOLDOWN_MS)
+  });
+  if (model === 'variance') return new MockDexRouter({ logger, scenario, networkFees, quoteCache, venueHealth });
+  const registry = createConstantProductDexRegistry(scenario ? scenarioRegistryOptions(scenario) : {});
+  return new MockDexRouter({ logger, registry, networkFees, quoteCache, venueHealth });
+}
+
 export async function start(): Promise<void> {
   const logger = createConsoleLogger();
   const port = optionalInt('PORT', 3000);
@@ -124,7 +200,9 @@ export async function start(): Promise<void> {
     eventBus,
     activeOrderTtlSeconds: ttlSeconds,
     startWorker: true,
-    connectionForBullMq: redis as any
+    connectionForBullMq: redis as any,
+    router: createRouterFromEnv(logger),
+    maxQuoteAgeMs: optionalInt('MAX_QUOTE_AGE_MS', MAX_QUOTE_AGE_MS)
   });
 
   try {
@@ -1,15 +1,20 @@
+import { v4 as uuidv4 } from 'uuid';
 import type {
   ActiveOrderStore,
   EventBus,
   Logger,
   Order,
   OrderEvent,
+  RouteQuote,
   SocketMappingStore
 } from '../types';
 
 export class InMemoryActiveOrderStore implements ActiveOrderStore {
   private readonly orders = new Map<string, Order>();
   private readonly events = new Map<string, OrderEvent[]>();
+  private readonly armed = new Set<string>();
+  private readonly locks = new Map<string, { token: string; expiresAt: number }>();
+  private readonly quotes = new Map<string, RouteQuote>();
 
   public async putActiveOrder(order: Order, _ttlSeconds: number): Promise<void> {
     this.orders.set(order.orderId, order);
@@ -33,6 +38,44 @@ export class InMemoryActiveOrderStore implements ActiveOrderStore {
   public async clear(orderId: string): Promise<void> {
     this.orders.delete(orderId);
     this.events.delete(orderId);
+    this.armed.delete(orderId);
+  }
+
+  public async armOrder(orderId: string): Promise<void> {
+    this.armed.add(orderId);
+  }
+
+  public async listArmedOrders(): Promise<string[]> {
+    return [...this.armed];
+  }
+
+  public async disarmOrder(orderId: string): Promise<boolean> {
+    return this.armed.delete(orderId);
+  }
+
+  public async tryLock(orderId: string, token: string, ttlMs: number): Promise<boolean> {
+    const held = this.locks.get(orderId);
+    if (held !== undefined && held.expiresAt > Date.now()) return false;
+    this.locks.set(orderId, { token, expiresAt: Date.now() + ttlMs });
+    return true;
+  }
+
+  public async unlock(orderId: string, token: string): Promise<void> {
+    if (this.locks.get(orderId)?.token === token) this.locks.delete(orderId);
+  }
+
+  public async putQuote(quote: RouteQuote): Promise<void> {
+    this.quotes.set(quote.quoteId, quote);
+  }
+
+  public async getQuote(quoteId: string): Promise<RouteQuote | null> {
+    const quote = this.quotes.get(quoteId);
+    if (!quote) return null;
+    if (quote.expiresAtMs <= Date.now()) {
+      this.quotes.delete(quoteId);
+      return null;
+    }
+    return quote;
   }
 }
 
@@ -76,12 +119,47 @@ export function orderEventsKey(orderId: string): string {
 export function orderSocketsKey(orderId: string): string {
   return `active:order:${orderId}:sockets`;
 }
+export function orderLockKey(orderId: string): string {
+  return `active:order:${orderId}:lock`;
+}
+export function quoteKey(quoteId: string): string {
+  return `quote:${quoteId}`;
+}
+export const ARMED_ORDERS_KEY = 'active:armed';
+
+export const ORDER_LOCK_TTL_MS = 5_000;
+const ORDER_LOCK_RETRY_MS = 20;
+// Waiting out a full TTL means even a holder that died with the lock cannot time a waiter out.
+const ORDER_LOCK_MAX_TRIES = Math.ceil(ORDER_LOCK_TTL_MS / ORDER_LOCK_RETRY_MS) + 1;
+
+/**
+ * Runs `fn` while holding the order's lifecycle lock, waiting for a concurrent holder to finish.
+ */
+export async function withOrderLock<T>(store: ActiveOrderStore, orderId: string, fn: () => Promise<T>): Promise<T> {
+  const token = uuidv4();
+  for (let tries = 1; !(await store.tryLock(orderId, token, ORDER_LOCK_TTL_MS)); tries++) {
+    if (tries >= ORDER_LOCK_MAX_TRIES) throw new Error(`Timed out waiting for order lock: ${orderId}`);
+    await new Promise((r) => setTimeout(r, ORDER_LOCK_RETRY_MS));
+  }
+  try {
+    return await fn();
+  } finally {
+    await store.unlock(orderId, token);
+  }
+}
+
+/**
+ * Deletes the lock only while it still holds the caller's token.
+ */
+const UNLOCK_SCRIPT = `if redis.call('get', KEYS[1]) == ARGV[1] then return redis.call('del', KEYS[1]) end return 0`;
 
 export interface RedisLike {
   get(key: string): Promise<string | null>;
   set(key: string, value: string): Promise<'OK' | null>;
+  set(key: string, value: string, px: 'PX', ttlMs: number, nx: 'NX'): Promise<'OK' | null>;
   expire(key: string, seconds: number): Promise<number>;
   del(...keys: string[]): Promise<number>;
+  eval(script: string, numKeys: number, ...args: string[]): Promise<unknown>;
   rpush(key: string, ...values: string[]): Promise<number>;
   lrange(key: string, start: number, stop: number): Promise<string[]>;
   sadd(key: string, ...members: string[]): Promise<number>;
@@ -107,7 +185,8 @@ export class RedisActiveOrderStore implements ActiveOrderStore {
     const key = orderActiveKey(order.orderId);
     await this.redis.set(key, JSON.stringify(order));
     await this.redis.expire(key, ttlSeconds);
-    // Events list will be created on first append. We only ensure it expires once it exists.
+    // Events list will be created on first append; an existing one (a resting order's) gets the same new TTL.
+    await this.redis.expire(orderEventsKey(order.orderId), ttlSeconds);
   }
 
   public async getActiveOrder(orderId: string): Promise<Order | null> {
@@ -129,6 +208,41 @@ export class RedisActiveOrderStore implements ActiveOrderStore {
 
   public async clear(orderId: string): Promise<void> {
     await this.redis.del(orderActiveKey(orderId), orderEventsKey(orderId), orderSocketsKey(orderId));
+    await this.redis.srem(ARMED_ORDERS_KEY, orderId);
+  }
+
+  public async armOrder(orderId: string): Promise<void> {
+    await this.redis.sadd(ARMED_ORDERS_KEY, orderId);
+  }
+
+  public async listArmedOrders(): Promise<string[]> {
+    return await this.redis.smembers(ARMED_ORDERS_KEY);
+  }
+
+  public async disarmOrder(orderId: string): Promise<boolean> {
+    return (await this.redis.srem(ARMED_ORDERS_KEY, orderId)) > 0;
+  }
+
+  public async tryLock(orderId: string, token: string, ttlMs: number): Promise<boolean> {
+    return (await this.redis.set(orderLockKey(orderId), token, 'PX', ttlMs, 'NX')) === 'OK';
+  }
+
+  public async unlock(orderId: string, token: string): Promise<void> {
+    await this.redis.eval(UNLOCK_SCRIPT, 1, orderLockKey(orderId), token);
+  }
+
+  public async putQuote(quote: RouteQuote): Promise<void> {
+    const key = quoteKey(quote.quoteId);
+    await this.redis.set(key, JSON.stringify(quote));
+    await this.redis.expire(key, Math.max(1, Math.ceil((quote.expiresAtMs - Date.now()) / 1000)));
+  }
+
+  public async getQuote(quoteId: string): Promise<RouteQuote | null> {
+    const raw = await this.redis.get(quoteKey(quoteId));
+    if (!raw) return null;
+    const quote = JSON.parse(raw) as RouteQuote;
+    // Redis expiry has second granularity; the quote's own expiry is authoritative.
+    return quote.expiresAtMs > Date.now() ? quote : null;
   }
 }
 
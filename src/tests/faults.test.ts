@@ -0,0 +1,272 @@
+import { buildServer } from '../server';
+import { createHermeticPgMemDb } from '../db';
+import { InMemoryActiveOrderStore, InMemoryEventBus, InMemorySocketMappingStore } from '../services/orderService';
+import type { Logger, Order, QueueClient } from '../types';
+import { MockDexRouter } from '../dex/mockDexRouter';
+import { createMockDexRegistry, MOCK_DEX_PROFILES } from '../dex/mockDexAdapter';
+import type { InjectedFault } from '../dex/faultInjector';
+import { CircuitOpenError, type VenueHealthStats } from '../dex/venueHealth';
+import { executeOrderJob } from '../queue/orderWorker';
+
+type LogEntry = { msg: string; meta?: Record<string, unknown> };
+
+function recordingLogger(): Logger & { entries: LogEntry[] } {
+  const entries: LogEntry[] = [];
+  const log = (msg: string, meta?: Record<string, unknown>) => {
+    entries.push({ msg, meta });
+  };
+  return { entries, info: log, warn: log, error: log };
+}
+
+function makeOrder(overrides: Partial<Order> = {}): Order {
+  return {
+    orderId: overrides.orderId ?? 'order-1',
+    type: 'market',
+    tokenIn: 'SOL',
+    tokenOut: 'USDC',
+    amount: overrides.amount ?? 100,
+    slippageBps: overrides.slippageBps ?? 50,
+    createdAtMs: 1
+  };
+}
+
+/**
+ * Router over Raydium alone, so every order routes to the venue the faults target.
+ */
+function raydiumOnlyRouter(logger: Logger, sleepFn: (ms: number) => Promise<void> = async () => {}): MockDexRouter {
+  const profiles = MOCK_DEX_PROFILES.filter((p) => p.name === 'raydium');
+  const registry = createMockDexRegistry({ profiles, random: () => 0.5, sleepFn });
+  return new MockDexRouter({ logger, registry, sleepFn });
+}
+
+async function runOrder(setup: (router: MockDexRouter) => void, overrides: Partial<Order> = {}) {
+  const db = createHermeticPgMemDb();
+  await db.initSchema();
+  const activeStore = new InMemoryActiveOrderStore();
+  const eventBus = new InMemoryEventBus();
+  const logger = recordingLogger();
+  const order = { ...makeOrder(), ...overrides };
+  await activeStore.putActiveOrder(order, 3600);
+  await db.insertOrder(order);
+
+  const router = raydiumOnlyRouter(logger);
+  setup(router);
+
+  const waits: number[] = [];
+  const error = await executeOrderJob(
+    {
+      connection: {},
+      activeStore,
+      eventBus,
+      db,
+      router,
+      logger,
+      activeOrderTtlSeconds: 3600,
+      sleeper: {
+        sleep: async (ms: number) => {
+          waits.push(ms);
+        }
+      }
+    },
+    order.orderId
+  ).then(
+    () => null,
+    (err: unknown) => err
+  );
+  const retries = logger.entries.filter((e) => e.msg === 'retry.scheduled').length;
+  return { error, retries, waits, logger, router, db, stored: await db.getOrder(order.orderId) };
+}
+
+class FakeQueueClient implements QueueClient {
+  public async enqueue(): Promise<void> {}
+  public async enqueueBulk(): Promise<void> {}
+  public async remove(): Promise<boolean> {
+    return false;
+  }
+  public async close(): Promise<void> {}
+}
+
+async function startHermeticServer() {
+  const logger = recordingLogger();
+  const app = await buildServer({
+    logger,
+    db: createHermeticPgMemDb(),
+    queue: new FakeQueueClient(),
+    activeStore: new InMemoryActiveOrderStore(),
+    socketMapping: new InMemorySocketMappingStore(),
+    eventBus: new InMemoryEventBus(),
+    activeOrderTtlSeconds: 3600,
+    startWorker: false,
+    connectionForBullMq: {},
+    router: new MockDexRouter({ logger, random: () => 0.5, sleepFn: async () => {} })
+  });
+  const address = await app.listen({ port: 0, host: '127.0.0.1' });
+  return { app, logger, baseUrl: `http://127.0.0.1:${new URL(address).port}` };
+}
+
+async function send(method: string, url: string, body?: unknown): Promise<Response> {
+  return await fetch(url, {
+    method,
+    ...(body === undefined ? {} : { headers: { 'content-type': 'application/json' }, body: JSON.stringify(body) })
+  });
+}
+
+describe('Fault injection', () => {
+  test('a one-shot swap revert is retried with backoff and the order then confirms', async () => {
+    const { error, waits, logger, router, stored } = await runOrder((r) =>
+      r.faults.inject({ dex: 'raydium', kind: 'swap_revert', remaining: 1 })
+    );
+    expect(error).toBeNull();
+    expect(stored?.status).toBe('confirmed');
+    expect(waits).toContain(1_000);
+    expect(logger.entries.filter((e) => e.msg === 'fault.triggered')).toHaveLength(1);
+    expect(logger.entries.find((e) => e.msg === 'retry.scheduled')?.meta?.error).toBe('Swap on raydium reverted');
+    // Spent after one hit.
+    expect(router.faults.list()).toEqual([]);
+  });
+
+  test('persistent quote timeouts open the venue circuit and fail the order once its retries run out', async () => {
+    const { error, retries, logger, stored } = await runOrder((r) =>
+      r.faults.inject({ dex: 'raydium', kind: 'quote_timeout', timeoutMs: 10 })
+    );
+    // The first attempt's direct and multi-hop quotes all time out, which opens the circuit.
+    const firstRetry = logger.entries.find((e) => e.msg === 'retry.scheduled');
+    expect(firstRetry?.meta?.error).toBe('Quote from raydium timed out after 10ms');
+    expect(logger.entries.filter((e) => e.msg === 'venue.circuit_opened')).toHaveLength(1);
+    expect(error).toBeInstanceOf(CircuitOpenError);
+    expect(retries).toBe(2);
+    expect(stored?.status).toBe('failed');
+    expect(stored?.failureReason).toBe('No venue available for SOL→USDC: every allowed venue has an open circuit');
+  });
+
+  test('a partial fill fails the order without a retry', async () => {
+    const { error, retries, stored, db } = await runOrder((r) =>
+      r.faults.inject({ dex: 'raydium', kind: 'partial_fill', fillRatio: 0.25 })
+    );
+    expect((error as Error).name).toBe('PartialFillError');
+    expect(retries).toBe(0);
+    expect(stored?.failureReason).toBe('Partial fill on raydium: 25 of 100');
+    // The filled part moved funds, so the failed order keeps its swap.
+    const legs = await db.listOrderLegs('order-1');
+    expect(legs).toEqual([expect.objectContaining({ dex: 'raydium', amountIn: 25, txHash: expect.any(String) })]);
+  });
+
+  test('an ioc order confirms the part that filled, and a fok order fails', async () => {
+    const partialFill = (r: MockDexRouter) =>
+      r.faults.inject({ dex: 'raydium', kind: 'partial_fill', fillRatio: 0.25 });
+
+    const ioc = await runOrder(partialFill, { timeInForce: 'ioc' });
+    expect(ioc.error).toBeNull();
+    expect(ioc.stored?.status).toBe('confirmed');
+    expect(ioc.stored?.amountIn).toBe(25);
+    expect(ioc.logger.entries.find((e) => e.msg === 'order.partial_fill')?.meta?.accepted).toBe(true);
+
+    const fok = await runOrder(partialFill, { timeInForce: 'fok' });
+    expect((fok.error as Error).name).toBe('PartialFillError');
+    expect(fok.stored?.status).toBe('failed');
+  });
+
+  test('a price gap wider than the slippage tolerance fails the slippage check', async () => {
+    const { retries, stored, db } = await runOrder((r) =>
+      r.faults.inject({ dex: 'raydium', kind: 'price_gap', gapBps: 300 })
+    );
+    expect(retries).toBe(0);
+    expect(stored?.status).toBe('failed');
+    expect(stored?.failureReason).toMatch(/^Slippage exceeded/);
+    // The gap hit after the venue's own check, so the swap landed and stays recorded.
+    expect(await db.listOrderLegs('order-1')).toEqual([expect.objectContaining({ dex: 'raydium', amountIn: 100 })]);
+  });
+
+  test('latency spikes delay quotes and swaps, and probability gates each hit', async () => {
+    const slept: number[] = [];
+    const router = raydiumOnlyRouter(recordingLogger(), async (ms) => {
+      slept.push(ms);
+    });
+    router.faults.inject({ dex: 'raydium', kind: 'latency_spike', delayMs: 7_000 });
+    await router.getQuote('raydium', 'SOL', 'USDC', 1);
+    await router.executeSwap('raydium', makeOrder(), 1);
+    expect(slept.filter((ms) => ms === 7_000)).toHaveLength(2);
+
+    const [fault] = router.faults.list();
+    router.faults.clear(fault.faultId);
+    router.faults.inject({ dex: 'raydium', kind: 'swap_revert', probability: 0.5 });
+    // Over 40 draws a coin-flip fault both hits and misses (all-one-way odds are 2^-39).
+    const outcomes = await Promise.all(
+      Array.from({ length: 40 }, () =>
+        router.executeSwap('raydium', makeOrder(), 1).then(
+          () => 'ok',
+          () => 'revert'
+        )
+      )
+    );
+    expect(outcomes).toContain('ok');
+    expect(outcomes).toContain('revert');
+  });
+
+  test('admin API injects, lists and clears faults, and logs each change', async () => {
+    const { app, logger, baseUrl } = await startHermeticServer();
+    try {
+      const created = await send('POST', `${baseUrl}/api/admin/faults`, {
+        dex: 'orca',
+        kind: 'quote_timeout',
+        timeoutMs: 2_000,
+        remaining: 3
+      });
+      expect(created.status).toBe(201);
+      const fault = (await created.json()) as InjectedFault;
+      expect(fault).toEqual(
+        expect.objectContaining({ dex: 'orca', kind: 'quote_timeout', timeoutMs: 2_000, remaining: 3, hits: 0 })
+      );
+      expect(logger.entries.some((e) => e.msg === 'fault.injected' && e.meta?.faultId === fault.faultId)).toBe(true);
+
+      await send('POST', `${baseUrl}/api/admin/faults`, { dex: 'phoenix', kind: 'swap_revert' });
+      const listed = (await (await send('GET', `${baseUrl}/api/admin/faults`)).json()) as { faults: InjectedFault[] };
+      expect(listed.faults.map((f) => f.kind)).toEqual(['quote_timeout', 'swap_revert']);
+
+      expect((await send('DELETE', `${baseUrl}/api/admin/faults/${fault.faultId}`)).status).toBe(200);
+      expect((await send('DELETE', `${baseUrl}/api/admin/faults/${fault.faultId}`)).status).toBe(404);
+      expect(await (await send('DELETE', `${baseUrl}/api/admin/faults`)).json()).toEqual({ cleared: 1 });
+      expect(logger.entries.filter((e) => e.msg.startsWith('fault.cleared'))).toHaveLength(2);
+    } finally {
+      await app.close();
+    }
+  });
+
+  test('venue health endpoint reports an injected quote fault and the circuit it opens', async () => {
+    const { app, baseUrl } = await startHermeticServer();
+    try {
+      await send('POST', `${baseUrl}/api/admin/faults`, { dex: 'orca', kind: 'quote_timeout', timeoutMs: 10 });
+      // Direct and multi-hop routing quote orca several times per request.
+      expect((await send('GET', `${baseUrl}/api/quotes?tokenIn=SOL&tokenOut=USDC&amount=10`)).status).toBe(200);
+
+      const res = await send('GET', `${baseUrl}/api/venues/health`);
+      expect(res.status).toBe(200);
+      const { venues } = (await res.json()) as { venues: VenueHealthStats[] };
+      expect(venues.map((v) => v.dex)).toEqual(['raydium', 'meteora', 'orca', 'phoenix']);
+      const orca = venues.find((v) => v.dex === 'orca') as VenueHealthStats;
+      expect(orca).toEqual(expect.objectContaining({ state: 'open', errorRate: 1, lastError: expect.any(String) }));
+      expect(orca.timeouts).toBe(orca.errors);
+      expect(venues.filter((v) => v.dex !== 'orca').every((v) => v.state === 'closed' && v.errors === 0)).toBe(true);
+    } finally {
+      await app.close();
+    }
+  });
+
+  test.each([
+    [{ dex: 'serum', kind: 'swap_revert' }, 'dex must be one of: raydium, meteora, orca, phoenix'],
+    [{ dex: 'orca', kind: 'meltdown' }, 'kind must be one of'],
+    [{ dex: 'orca', kind: 'swap_revert', delayMs: 5 }, 'delayMs does not apply to swap_revert'],
+    [{ dex: 'orca', kind: 'partial_fill', fillRatio: 1 }, 'fillRatio must be below 1'],
+    [{ dex: 'orca', kind: 'latency_spike', probability: 0 }, 'probability must be a number in (0, 1]'],
+    [{ dex: 'orca', kind: 'price_gap', remaining: 1.5 }, 'remaining must be a positive integer']
+  ])('admin API rejects invalid fault %j', async (body, error) => {
+    const { app, baseUrl } = await startHermeticServer();
+    try {
+      const res = await send('POST', `${baseUrl}/api/admin/faults`, body);
+      expect(res.status).toBe(400);
+      expect(((await res.json()) as { error: string }).error).toContain(error);
+    } finally {
+      await app.close();
+    }
+  });
+});
@@ -0,0 +1,600 @@
+import { buildServer } from '../server';
+import { createHermeticPgMemDb } from '../db';
+import {
+  InMemoryActiveOrderStore,
+  InMemoryEventBus,
+  InMemorySocketMappingStore
+} from '../services/orderService';
+import type {
+  AmendOrderResponse,
+  ExecuteBatchResponse,
+  ExecuteOrderResponse,
+  Logger,
+  Order,
+  OrderDetailsResponse,
+  OrderSearchResponse,
+  QueueClient
+} from '../types';
+import { MockDexRouter } from '../dex/mockDexRouter';
+import { executeOrderJob, twapChildOrderId } from '../queue/orderWorker';
+
+function noopLogger(): Logger {
+  return { info: () => {}, warn: () => {}, error: () => {} };
+}
+
+class FakeQueueClient implements QueueClient {
+  public readonly enqueued: string[] = [];
+  public async enqueue(payload: { orderId: string }): Promise<void> {
+    this.enqueued.push(payload.orderId);
+  }
+  public async enqueueBulk(payloads: Array<{ orderId: string }>): Promise<void> {
+    this.enqueued.push(...payloads.map((p) => p.orderId));
+  }
+  public async remove(orderId: string): Promise<boolean> {
+    const idx = this.enqueued.indexOf(orderId);
+    if (idx === -1) return false;
+    this.enqueued.splice(idx, 1);
+    return true;
+  }
+  public async close(): Promise<void> {}
+}
+
+async function startHermeticServer() {
+  const logger = noopLogger();
+  const db = createHermeticPgMemDb();
+  const activeStore = new InMemoryActiveOrderStore();
+  const socketMapping = new InMemorySocketMappingStore();
+  const eventBus = new InMemoryEventBus();
+  const queue = new FakeQueueClient();
+
+  const app = await buildServer({
+    logger,
+    db,
+    queue,
+    activeStore,
+    socketMapping,
+    eventBus,
+    activeOrderTtlSeconds: 3600,
+    startWorker: false,
+    connectionForBullMq: {}
+  });
+
+  const address = await app.listen({ port: 0, host: '127.0.0.1' });
+  const port = Number(new URL(address).port);
+  const baseUrl = `http://127.0.0.1:${port}`;
+  const workerDeps = {
+    connection: {},
+    activeStore,
+    eventBus,
+    db,
+    router: new MockDexRouter({ logger, random: () => 0.5, sleepFn: async () => {} }),
+    logger,
+    activeOrderTtlSeconds: 3600,
+    sleeper: { sleep: async () => {} }
+  };
+  return { app, baseUrl, deps: { logger, db, activeStore, eventBus, queue }, workerDeps };
+}
+
+async function submit(baseUrl: string, body: Record<string, unknown> = {}): Promise<ExecuteOrderResponse> {
+  const res = await fetch(`${baseUrl}/api/orders/execute`, {
+    method: 'POST',
+    headers: { 'content-type': 'application/json' },
+    body: JSON.stringify({ tokenIn: 'SOL', tokenOut: 'USDC', amount: 10, slippageBps: 50, ...body })
+  });
+  return (await res.json()) as ExecuteOrderResponse;
+}
+
+async function cancel(baseUrl: string, orderId: string): Promise<Response> {
+  return await fetch(`${baseUrl}/api/orders/${orderId}`, { method: 'DELETE' });
+}
+
+describe('Order cancellation (hermetic)', () => {
+  test('pending order is cancelled, its job removed and the worker skips it', async () => {
+    const { app, baseUrl, deps, workerDeps } = await startHermeticServer();
+    try {
+      const { orderId } = await submit(baseUrl);
+      expect(deps.queue.enqueued).toEqual([orderId]);
+
+      const res = await cancel(baseUrl, orderId);
+      expect(res.status).toBe(200);
+      expect(await res.json()).toEqual({ orderId, status: 'cancelled' });
+      expect(deps.queue.enqueued).toEqual([]);
+
+      // A job that was already picked up must not execute a cancelled order.
+      await executeOrderJob(workerDeps, orderId);
+
+      const statuses = (await deps.activeStore.listEvents(orderId)).map((e) => e.status);
+      expect(statuses).toEqual(['pending', 'cancelled']);
+      expect((await deps.db.getOrder(orderId))?.status).toBe('cancelled');
+    } finally {
+      await app.close();
+    }
+  });
+
+  test('armed trigger order is disarmed on cancel', async () => {
+    const { app, baseUrl, deps } = await startHermeticServer();
+    try {
+      const { orderId } = await submit(baseUrl, { type: 'stop_loss', triggerPrice: 0.5 });
+      expect(await deps.activeStore.listArmedOrders()).toEqual([orderId]);
+
+      expect((await cancel(baseUrl, orderId)).status).toBe(200);
+      expect(await deps.activeStore.listArmedOrders()).toEqual([]);
+    } finally {
+      await app.close();
+    }
+  });
+
+  test('an armed order whose disarm a watcher already won is not cancelled', async () => {
+    const { app, baseUrl, deps } = await startHermeticServer();
+    try {
+      const { orderId } = await submit(baseUrl, { type: 'stop_loss', triggerPrice: 0.5 });
+      await deps.activeStore.disarmOrder(orderId);
+
+      const res = await cancel(baseUrl, orderId);
+      expect(res.status).toBe(409);
+      expect(((await res.json()) as { error: string }).error).toBe('Too late to cancel: order is already triggered');
+      expect((await deps.activeStore.listEvents(orderId)).map((e) => e.status)).not.toContain('cancelled');
+    } finally {
+      await app.close();
+    }
+  });
+
+  test('a trigger that lands after a cancel does not execute the order', async () => {
+    const { app, baseUrl, deps, workerDeps } = await startHermeticServer();
+    try {
+      const { orderId } = await submit(baseUrl, { type: 'stop_loss', triggerPrice: 0.5 });
+      expect((await cancel(baseUrl, orderId)).status).toBe(200);
+      await deps.activeStore.appendEvent(
+        orderId,
+        { orderId, status: 'triggered', tsMs: Date.now(), triggerPrice: 0.5, effectivePrice: 0.4, dex: 'raydium' },
+        3600
+      );
+
+      await executeOrderJob(workerDeps, orderId);
+
+      const statuses = (await deps.activeStore.listEvents(orderId)).map((e) => e.status);
+      expect(statuses.slice(-2)).toEqual(['cancelled', 'triggered']);
+      expect((await deps.db.getOrder(orderId))?.status).toBe('cancelled');
+    } finally {
+      await app.close();
+    }
+  });
+
+  test('cancelling a running TWAP stops its remaining slices', async () => {
+    const { app, baseUrl, deps, workerDeps } = await startHermeticServer();
+    try {
+      const { orderId } = await submit(baseUrl, { type: 'twap', amount: 100, twapDurationMs: 60_000, twapSlices: 4 });
+      await executeOrderJob({ ...workerDeps, queue: deps.queue }, orderId);
+      const [first, ...rest] = [0, 1, 2, 3].map((i) => twapChildOrderId(orderId, i));
+      await executeOrderJob(workerDeps, first);
+
+      const sliceRes = await cancel(baseUrl, rest[0]);
+      expect(sliceRes.status).toBe(409);
+      expect(((await sliceRes.json()) as { error: string }).error).toMatch(/cancel the parent order instead/);
+
+      const res = await cancel(baseUrl, orderId);
+      expect(res.status).toBe(200);
+      // The fake queue keeps executed jobs, so only the slice that already ran is left.
+      expect(deps.queue.enqueued).toEqual([first]);
+      // A slice job that was already picked up skips its cancelled slice.
+      await executeOrderJob(workerDeps, rest[0]);
+
+      expect((await deps.db.getOrder(orderId))?.status).toBe('cancelled');
+      expect((await deps.db.getOrder(first))?.status).toBe('confirmed');
+      for (const slice of rest) {
+        expect((await deps.db.getOrder(slice))?.status).toBe('cancelled');
+        expect((await deps.activeStore.listEvents(slice)).map((e) => e.status)).toEqual(['pending', 'cancelled']);
+      }
+    } finally {
+      await app.close();
+    }
+  });
+
+  test('a lock holder that overran its TTL leaves the next holder locked', async () => {
+    const store = new InMemoryActiveOrderStore();
+    expect(await store.tryLock('o-1', 'slow', 1)).toBe(true);
+    await new Promise((r) => setTimeout(r, 5));
+    expect(await store.tryLock('o-1', 'next', 5_000)).toBe(true);
+
+    await store.unlock('o-1', 'slow');
+    expect(await store.tryLock('o-1', 'third', 5_000)).toBe(false);
+    await store.unlock('o-1', 'next');
+    expect(await store.tryLock('o-1', 'third', 5_000)).toBe(true);
+  });
+
+  test('cancelling once the order is submitted is rejected as too late', async () => {
+    const { app, baseUrl, deps, workerDeps } = await startHermeticServer();
+    try {
+      const { orderId } = await submit(baseUrl);
+      await executeOrderJob(workerDeps, orderId);
+
+      const res = await cancel(baseUrl, orderId);
+      expect(res.status).toBe(409);
+      expect(((await res.json()) as { error: string }).error).toMatch(/Too late to cancel/);
+      expect((await deps.db.getOrder(orderId))?.status).toBe('confirmed');
+    } finally {
+      await app.close();
+    }
+  });
+
+  test('cancelling an unknown order returns 404', async () => {
+    const { app, baseUrl } = await startHermeticServer();
+    try {
+      expect((await cancel(baseUrl, 'does-not-exist')).status).toBe(404);
+    } finally {
+      await app.close();
+    }
+  });
+});
+
+describe('Order lookup (hermetic)', () => {
+  test('returns the persisted record merged with the live event backlog', async () => {
+    const { app, baseUrl, workerDeps } = await startHermeticServer();
+    try {
+      const { orderId } = await submit(baseUrl);
+      await executeOrderJob(workerDeps, orderId);
+
+      const res = await fetch(`${baseUrl}/api/orders/${orderId}`);
+      expect(res.status).toBe(200);
+      const body = (await res.json()) as OrderDetailsResponse;
+      expect(body.source).toBe('active');
+      expect(body.status).toBe('confirmed');
+      expect(body.txHash).toBeTruthy();
+      expect(body.events.map((e) => e.status)).toEqual(['pending', 'routing', 'building', 'submitted', 'confirmed']);
+    } finally {
+      await app.close();
+    }
+  });
+
+  test('reports the live status of an in-flight order', async () => {
+    const { app, baseUrl } = await startHermeticServer();
+    try {
+      const { orderId } = await submit(baseUrl, { type: 'take_profit', triggerPrice: 5 });
+
+      const body = (await (await fetch(`${baseUrl}/api/orders/${orderId}`)).json()) as OrderDetailsResponse;
+      expect(body.status).toBe('armed');
+      expect(body.triggerPrice).toBe(5);
+    } finally {
+      await app.close();
+    }
+  });
+
+  test('falls back to Postgres alone once the active store has expired the order', async () => {
+    const { app, baseUrl, deps, workerDeps } = await startHermeticServer();
+    try {
+      const { orderId } = await submit(baseUrl);
+      await executeOrderJob(workerDeps, orderId);
+      await deps.activeStore.clear(orderId);
+
+      const body = (await (await fetch(`${baseUrl}/api/orders/${orderId}`)).json()) as OrderDetailsResponse;
+      expect(body.source).toBe('history');
+      expect(body.events).toEqual([]);
+      expect(body.status).toBe('confirmed');
+    } finally {
+      await app.close();
+    }
+  });
+
+  test('unknown order returns 404', async () => {
+    const { app, baseUrl } = await startHermeticServer();
+    try {
+      expect((await fetch(`${baseUrl}/api/orders/does-not-exist`)).status).toBe(404);
+    } finally {
+      await app.close();
+    }
+  });
+});
+
+describe('Order history search (hermetic)', () => {
+  async function seed(db: ReturnType<typeof createHermeticPgMemDb>): Promise<void> {
+    const rows: Array<[string, string, string, number, string | null]> = [
+      ['o-1', 'SOL', 'USDC', 1_000, 'raydium'],
+      ['o-2', 'SOL', 'USDC', 2_000, 'meteora'],
+      ['o-3', 'SOL', 'BONK', 2_000, 'orca'],
+      ['o-4', 'USDC', 'SOL', 3_000, null]
+    ];
+    for (const [orderId, tokenIn, tokenOut, createdAtMs, dex] of rows) {
+      const order: Order = { orderId, type: 'market', tokenIn, tokenOut, amount: 1, slippageBps: 50, createdAtMs };
+      await db.insertOrder(order);
+      if (!dex) continue;
+      const fill = { dex, executedPrice: 1, txHash: `tx-${orderId}`, amountIn: 1, amountOut: 1 };
+      const legs = [{ ...fill, tokenIn, tokenOut, amount: 1 }];
+      await db.finalizeOrder({ orderId, ...fill, legs, updatedAtMs: 5_000 });
+    }
+  }
+
+  async function search(baseUrl: string, qs: string): Promise<Response> {
+    return await fetch(`${baseUrl}/api/orders?${qs}`);
+  }
+
+  test('pages newest first with a stable cursor across equal timestamps', async () => {
+    const { app, baseUrl, deps } = await startHermeticServer();
+    try {
+      await seed(deps.db);
+
+      const seen: string[] = [];
+      let cursor: string | null = null;
+      do {
+        const qs: string = `limit=2${cursor ? `&cursor=${encodeURIComponent(cursor)}` : ''}`;
+        const res = await search(baseUrl, qs);
+        expect(res.status).toBe(200);
+        const page = (await res.json()) as OrderSearchResponse;
+        seen.push(...page.items.map((o) => o.orderId));
+        cursor = page.nextCursor;
+      } while (cursor);
+
+      expect(seen).toEqual(['o-4', 'o-3', 'o-2', 'o-1']);
+    } finally {
+      await app.close();
+    }
+  });
+
+  test('filters by status, pair, venue and creation time range', async () => {
+    const { app, baseUrl, deps } = await startHermeticServer();
+    try {
+      await seed(deps.db);
+      const ids = async (qs: string): Promise<string[]> =>
+        ((await (await search(baseUrl, qs)).json()) as OrderSearchResponse).items.map((o) => o.orderId);
+
+      expect(await ids('status=pending')).toEqual(['o-4']);
+      expect(await ids('tokenIn=SOL&tokenOut=USDC')).toEqual(['o-2', 'o-1']);
+      expect(await ids('dex=raydium')).toEqual(['o-1']);
+      expect(await ids('dex=orca')).toEqual(['o-3']);
+      expect(await ids('createdFromMs=2000&createdToMs=3000')).toEqual(['o-3', 'o-2']);
+      expect(await ids('status=confirmed&dex=meteora')).toEqual(['o-2']);
+    } finally {
+      await app.close();
+    }
+  });
+
+  test('rejects malformed query parameters', async () => {
+    const { app, baseUrl } = await startHermeticServer();
+    try {
+      const malformed = ['status=nope', 'status=routing', 'dex=', 'limit=0', 'limit=1000', 'createdFromMs=abc'];
+      for (const qs of [...malformed, 'cursor=garbage']) {
+        expect((await search(baseUrl, qs)).status).toBe(400);
+      }
+    } finally {
+      await app.close();
+    }
+  });
+});
+
+describe('Idempotent submission (hermetic)', () => {
+  async function submitWithKey(baseUrl: string, key: string, body: Record<string, unknown> = {}): Promise<Response> {
+    return await fetch(`${baseUrl}/api/orders/execute`, {
+      method: 'POST',
+      headers: { 'content-type': 'application/json', 'idempotency-key': key },
+      body: JSON.stringify({ tokenIn: 'SOL', tokenOut: 'USDC', amount: 10, slippageBps: 50, ...body })
+    });
+  }
+
+  test('a retry with the same key and body replays the original response without a second order', async () => {
+    const { app, baseUrl, deps } = await startHermeticServer();
+    try {
+      const first = await submitWithKey(baseUrl, 'retry-1');
+      const second = await submitWithKey(baseUrl, 'retry-1');
+      expect(first.status).toBe(200);
+      expect(second.status).toBe(200);
+
+      const original = (await first.json()) as ExecuteOrderResponse;
+      expect(await second.json()).toEqual(original);
+      expect(deps.queue.enqueued).toEqual([original.orderId]);
+    } finally {
+      await app.close();
+    }
+  });
+
+  test('reusing a key with a different body is rejected with 409', async () => {
+    const { app, baseUrl, deps } = await startHermeticServer();
+    try {
+      expect((await submitWithKey(baseUrl, 'retry-2', { amount: 10 })).status).toBe(200);
+
+      const res = await submitWithKey(baseUrl, 'retry-2', { amount: 11 });
+      expect(res.status).toBe(409);
+      expect(deps.queue.enqueued).toHaveLength(1);
+    } finally {
+      await app.close();
+    }
+  });
+
+  test('concurrent requests with the same key create a single order', async () => {
+    const { app, baseUrl, deps } = await startHermeticServer();
+    try {
+      const responses = await Promise.all([submitWithKey(baseUrl, 'race'), submitWithKey(baseUrl, 'race')]);
+      const bodies = (await Promise.all(responses.map((r) => r.json()))) as ExecuteOrderResponse[];
+
+      expect(bodies[0].orderId).toBe(bodies[1].orderId);
+      expect(deps.queue.enqueued).toEqual([bodies[0].orderId]);
+    } finally {
+      await app.close();
+    }
+  });
+});
+
+describe('Batch submission (hermetic)', () => {
+  async function submitBatch(baseUrl: string, body: Record<string, unknown>): Promise<Response> {
+    return await fetch(`${baseUrl}/api/orders/batch`, {
+      method: 'POST',
+      headers: { 'content-type': 'application/json' },
+      body: JSON.stringify(body)
+    });
+  }
+
+  const valid = { tokenIn: 'SOL', tokenOut: 'USDC', amount: 10, slippageBps: 50 };
+
+  test('returns per-item results and enqueues the valid orders together', async () => {
+    const { app, baseUrl, deps } = await startHermeticServer();
+    try {
+      const res = await submitBatch(baseUrl, {
+        orders: [valid, { ...valid, amount: -1 }, { ...valid, type: 'stop_loss', triggerPrice: 0.5 }, valid]
+      });
+      expect(res.status).toBe(200);
+      const { results } = (await res.json()) as ExecuteBatchResponse;
+
+      expect(results.map((r) => r.ok)).toEqual([true, false, true, true]);
+      expect(results[1]).toEqual({ ok: false, error: 'amount must be a positive number' });
+      const ids = results.map((r) => (r.ok ? r.orderId : null));
+      // The stop_loss order waits armed instead of being enqueued.
+      expect(deps.queue.enqueued).toEqual([ids[0], ids[3]]);
+      expect(await deps.activeStore.listArmedOrders()).toEqual([ids[2]]);
+      expect((await deps.activeStore.listEvents(ids[0] as string)).map((e) => e.status)).toEqual(['pending']);
+      expect((await deps.db.getOrder(ids[3] as string))?.status).toBe('pending');
+    } finally {
+      await app.close();
+    }
+  });
+
+  test('allOrNothing rejects the whole batch when any order is invalid', async () => {
+    const { app, baseUrl, deps } = await startHermeticServer();
+    try {
+      const res = await submitBatch(baseUrl, { allOrNothing: true, orders: [valid, { ...valid, tokenIn: '' }] });
+      expect(res.status).toBe(400);
+      const body = (await res.json()) as ExecuteBatchResponse;
+      expect(body.results.map((r) => r.ok)).toEqual([false, false]);
+      expect(deps.queue.enqueued).toEqual([]);
+    } finally {
+      await app.close();
+    }
+  });
+
+  test('rejects an empty batch', async () => {
+    const { app, baseUrl } = await startHermeticServer();
+    try {
+      expect((await submitBatch(baseUrl, { orders: [] })).status).toBe(400);
+    } finally {
+      await app.close();
+    }
+  });
+});
+
+describe('Order amendment (hermetic)', () => {
+  async function amend(baseUrl: string, orderId: string, body: Record<string, unknown>): Promise<Response> {
+    return await fetch(`${baseUrl}/api/orders/${orderId}`, {
+      method: 'PATCH',
+      headers: { 'content-type': 'application/json' },
+      body: JSON.stringify(body)
+    });
+  }
+
+  test('pending order is amended in both stores and the worker executes the amended order', async () => {
+    const { app, baseUrl, deps, workerDeps } = await startHermeticServer();
+    try {
+      const { orderId } = await submit(baseUrl);
+
+      const res = await amend(baseUrl, orderId, { amount: 25 });
+      expect(res.status).toBe(200);
+      expect(await res.json()).toEqual({
+        orderId,
+        revision: 1,
+        previous: { amount: 10, slippageBps: 50 },
+        current: { amount: 25, slippageBps: 50 }
+      });
+      expect((await deps.activeStore.getActiveOrder(orderId))?.amount).toBe(25);
+      expect((await deps.db.getOrder(orderId))?.amount).toBe(25);
+
+      await executeOrderJob(workerDeps, orderId);
+
+      const events = await deps.activeStore.listEvents(orderId);
+      expect(events.map((e) => e.status)).toEqual([
+        'pending',
+        'amended',
+        'routing',
+        'building',
+        'submitted',
+        'confirmed'
+      ]);
+      expect(events[events.length - 1]).toEqual(expect.objectContaining({ amountIn: 25 }));
+    } finally {
+      await app.close();
+    }
+  });
+
+  test('repeated amendments bump the revision and leave the order cancellable', async () => {
+    const { app, baseUrl } = await startHermeticServer();
+    try {
+      const { orderId } = await submit(baseUrl);
+      await amend(baseUrl, orderId, { amount: 20 });
+
+      const second = (await (await amend(baseUrl, orderId, { slippageBps: 75 })).json()) as AmendOrderResponse;
+      expect(second.revision).toBe(2);
+      expect(second.current).toEqual({ amount: 20, slippageBps: 75 });
+
+      const lookup = (await (await fetch(`${baseUrl}/api/orders/${orderId}`)).json()) as OrderDetailsResponse;
+      expect(lookup.status).toBe('pending');
+      expect((await cancel(baseUrl, orderId)).status).toBe(200);
+    } finally {
+      await app.close();
+    }
+  });
+
+  test('amending after routing has started, or an unknown order, is rejected', async () => {
+    const { app, baseUrl, workerDeps } = await startHermeticServer();
+    try {
+      const { orderId } = await submit(baseUrl);
+      expect((await amend(baseUrl, orderId, { amount: -1 })).status).toBe(400);
+      expect((await amend(baseUrl, orderId, {})).status).toBe(400);
+
+      await executeOrderJob(workerDeps, orderId);
+      const res = await amend(baseUrl, orderId, { amount: 5 });
+      expect(res.status).toBe(409);
+      expect(((await res.json()) as { error: string }).error).toMatch(/Too late to amend/);
+
+      expect((await amend(baseUrl, 'does-not-exist', { amount: 5 })).status).toBe(404);
+    } finally {
+      await app.close();
+    }
+  });
+});
+
+describe('Routing preferences (hermetic)', () => {
+  test('preferences are persisted, honored by the worker, and the routing reasons recorded', async () => {
+    const { app, baseUrl, workerDeps } = await startHermeticServer();
+    try {
+      const { orderId } = await submit(baseUrl, {
+        excludeDexes: ['raydium'],
+        routingObjective: 'lowest_latency',
+        priorityFeeMicroLamports: 50_000
+      });
+      await executeOrderJob(workerDeps, orderId);
+
+      const body = (await (await fetch(`${baseUrl}/api/orders/${orderId}`)).json()) as OrderDetailsResponse;
+      expect(body.status).toBe('confirmed');
+      expect(body.excludeDexes).toEqual(['raydium']);
+      expect(body.pinnedDex).toBeNull();
+      expect(body.routingObjective).toBe('lowest_latency');
+      expect(body.priorityFeeMicroLamports).toBe(50_000);
+      expect(body.dexChosen).toBe('phoenix');
+      expect(body.routingReasons).toEqual([
+        { dex: 'raydium', chosen: false, reason: 'excluded by the order' },
+        { dex: 'meteora', chosen: false, reason: 'expected latency 2700ms vs 1350ms' },
+        { dex: 'orca', chosen: false, reason: 'expected latency 2150ms vs 1350ms' },
+        { dex: 'phoenix', chosen: true, reason: 'lowest expected latency (1350ms)' }
+      ]);
+    } finally {
+      await app.close();
+    }
+  });
+
+  test.each([
+    [{ excludeDexes: 'raydium' }, 'excludeDexes must be an array of venue names'],
+    [{ excludeDexes: ['serum'] }, 'excludeDexes names unknown venue: serum'],
+    [{ pinnedDex: 'serum' }, 'pinnedDex names unknown venue: serum'],
+    [{ pinnedDex: 'orca', excludeDexes: ['orca'] }, 'pinnedDex must not be excluded'],
+    [{ routingObjective: 'cheapest' }, 'routingObjective must be one of: best_price, lowest_latency'],
+    [{ priorityFeeMicroLamports: -1 }, 'priorityFeeMicroLamports must be a non-negative integer']
+  ])('rejects invalid preferences %j', async (prefs, error) => {
+    const { app, baseUrl } = await startHermeticServer();
+    try {
+      const res = await fetch(`${baseUrl}/api/orders/execute`, {
+        method: 'POST',
+        headers: { 'content-type': 'application/json' },
+        body: JSON.stringify({ tokenIn: 'SOL', tokenOut: 'USDC', amount: 10, slippageBps: 50, ...prefs })
+      });
+      expect(res.status).toBe(400);
+      expect(await res.json()).toEqual({ error });
+    } finally {
+      await app.close();
+    }
+  });
+});
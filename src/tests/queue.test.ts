@@ -1,16 +1,24 @@
-import type { Logger, Order } from '../types';
+import type { Logger, Order, QueueClient } from '../types';
 import { InMemoryActiveOrderStore, InMemoryEventBus } from '../services/orderService';
 import { createHermeticPgMemDb } from '../db';
 import {
   computeExponentialBackoffMs,
+  computeMaxAmountIn,
+  computeMinAcceptablePrice,
   executeOrderJob,
   ORDER_BACKOFF_BASE_MS,
   ORDER_MAX_ATTEMPTS,
+  LIMIT_REQUOTE_INTERVAL_MS,
   ORDER_WORKER_CONCURRENCY,
+  PartialExecutionError,
   runWithRetries
 } from '../queue/orderWorker';
 import { BULLMQ_JOB_ATTEMPTS, ORDER_RATE_LIMIT_DURATION_MS, ORDER_RATE_LIMIT_MAX } from '../queue/orderQueue';
 import { MockDexRouter } from '../dex/mockDexRouter';
+import { createMockDexRegistry, MOCK_DEX_PROFILES } from '../dex/mockDexAdapter';
+import { SwapRevertedError } from '../dex/faultInjector';
+import { ConstantProductDexAdapter, createConstantProductDexRegistry } from '../dex/constantProductAdapter';
+import { TokenGraph } from '../dex/tokenGraph';
 
 function noopLogger(): Logger {
   return { info: () => {}, warn: () => {}, error: () => {} };
@@ -24,6 +32,12 @@ function makeOrder(overrides: Partial<Order> = {}): Order {
     tokenOut: overrides.tokenOut ?? 'USDC',
     amount: overrides.amount ?? 100,
     slippageBps: overrides.slippageBps ?? 50,
+    ...(overrides.type ? { type: overrides.type } : {}),
+    ...(overrides.limitPrice !== undefined ? { limitPrice: overrides.limitPrice } : {}),
+    ...(overrides.expiresAtMs !== undefined ? { expiresAtMs: overrides.expiresAtMs } : {}),
+    ...(overrides.swapMode ? { swapMode: overrides.swapMode } : {}),
+    ...(overrides.timeInForce ? { timeInForce: overrides.timeInForce } : {}),
+    ...(overrides.deadlineMs !== undefined ? { deadlineMs: overrides.deadlineMs } : {}),
     createdAtMs: overrides.createdAtMs ?? 1
   };
 }
@@ -174,5 +188,784 @@ describe('Queue/worker configuration and retry orchestration (hermetic)', () =>
     expect(stored?.failureReason).toBe('routing failed');
     expect(events).toContain('failed');
   });
-});
 
+  test('limit order re-quotes until effectivePrice meets limitPrice, then confirms', async () => {
+    const db = createHermeticPgMemDb();
+    await db.initSchema();
+
+    const activeStore = new InMemoryActiveOrderStore();
+    const eventBus = new InMemoryEventBus();
+    const logger = noopLogger();
+    const order = makeOrder({
+      orderId: 'order-limit',
+      type: 'limit',
+      limitPrice: 1.5,
+      expiresAtMs: Date.now() + 60_000
+    });
+    await activeStore.putActiveOrder(order, 3600);
+    await db.insertOrder(order);
+
+    const inner = new MockDexRouter({ logger, random: () => 0.5, sleepFn: async () => {} });
+    const prices = [1.2, 1.4, 1.6];
+    let routeCalls = 0;
+    const router = {
+      route: async (o: Order) => {
+        const decision = await inner.route(o);
+        const effectivePrice = prices[Math.min(routeCalls++, prices.length - 1)];
+        return { ...decision, chosen: { ...decision.chosen, price: effectivePrice, effectivePrice } };
+      },
+      executeSwap: inner.executeSwap.bind(inner)
+    } as unknown as MockDexRouter;
+
+    const waits: number[] = [];
+    await executeOrderJob(
+      {
+        connection: {},
+        activeStore,
+        eventBus,
+        db,
+        router,
+        logger,
+        activeOrderTtlSeconds: 3600,
+        sleeper: {
+          sleep: async (ms: number) => {
+            waits.push(ms);
+          }
+        }
+      },
+      order.orderId
+    );
+
+    expect(routeCalls).toBe(3);
+    expect(waits.filter((ms) => ms === LIMIT_REQUOTE_INTERVAL_MS)).toHaveLength(2);
+    const stored = await db.getOrder(order.orderId);
+    expect(stored?.status).toBe('confirmed');
+    expect(stored?.type).toBe('limit');
+    expect(stored?.limitPrice).toBe(1.5);
+  });
+
+  test('a resting limit order is re-enqueued with a delay, and a failed re-quote keeps it resting', async () => {
+    const db = createHermeticPgMemDb();
+    await db.initSchema();
+
+    const activeStore = new InMemoryActiveOrderStore();
+    const eventBus = new InMemoryEventBus();
+    const warnings: string[] = [];
+    const logger = { ...noopLogger(), warn: (msg: string) => void warnings.push(msg) };
+    const order = makeOrder({
+      orderId: 'order-limit-rest',
+      type: 'limit',
+      limitPrice: 1.5,
+      expiresAtMs: Date.now() + 60_000
+    });
+    await activeStore.putActiveOrder(order, 3600);
+    await db.insertOrder(order);
+
+    const inner = new MockDexRouter({ logger, random: () => 0.5, sleepFn: async () => {} });
+    const prices = [null, 1.2, 1.6];
+    let routeCalls = 0;
+    const router = {
+      route: async (o: Order) => {
+        const effectivePrice = prices[routeCalls++];
+        if (effectivePrice === null) throw new Error('Simulated quote failure');
+        const decision = await inner.route(o);
+        return { ...decision, chosen: { ...decision.chosen, price: effectivePrice, effectivePrice } };
+      },
+      executeSwap: inner.executeSwap.bind(inner)
+    } as unknown as MockDexRouter;
+    const enqueued: Array<{ orderId: string; delayMs?: number; jobId?: string }> = [];
+    const queue: QueueClient = {
+      enqueue: async ({ orderId }, opts = {}) => void enqueued.push({ orderId, ...opts }),
+      enqueueBulk: async () => {},
+      remove: async () => false,
+      close: async () => {}
+    };
+    const putActiveOrder = jest.spyOn(activeStore, 'putActiveOrder');
+    const waits: number[] = [];
+    const deps = {
+      connection: {},
+      activeStore,
+      eventBus,
+      db,
+      router,
+      logger,
+      queue,
+      activeOrderTtlSeconds: 3600,
+      sleeper: { sleep: async (ms: number) => void waits.push(ms) }
+    };
+
+    // Each run stands in for the delayed job the previous one enqueued.
+    for (let run = 0; run < 3; run++) await executeOrderJob(deps, order.orderId);
+
+    expect(routeCalls).toBe(3);
+    expect(waits).not.toContain(LIMIT_REQUOTE_INTERVAL_MS);
+    expect(enqueued).toHaveLength(2);
+    for (const job of enqueued) {
+      expect(job).toEqual(expect.objectContaining({ orderId: order.orderId, delayMs: LIMIT_REQUOTE_INTERVAL_MS }));
+      expect(job.jobId).toMatch(/^order-limit-rest:rest:/);
+    }
+    expect(putActiveOrder).toHaveBeenCalledTimes(2);
+    expect(putActiveOrder).toHaveBeenCalledWith(expect.objectContaining({ orderId: order.orderId }), 3600);
+    expect(warnings).toEqual(['limit.requote_failed']);
+    expect((await db.getOrder(order.orderId))?.status).toBe('confirmed');
+  });
+
+  test('limit order that never reaches its price ends as expired', async () => {
+    const db = createHermeticPgMemDb();
+    await db.initSchema();
+
+    const activeStore = new InMemoryActiveOrderStore();
+    const eventBus = new InMemoryEventBus();
+    const logger = noopLogger();
+    const order = makeOrder({ orderId: 'order-limit-expired', type: 'limit', limitPrice: 1_000, expiresAtMs: 1 });
+    await activeStore.putActiveOrder(order, 3600);
+    await db.insertOrder(order);
+
+    const router = new MockDexRouter({ logger, random: () => 0.5, sleepFn: async () => {} });
+    await executeOrderJob(
+      {
+        connection: {},
+        activeStore,
+        eventBus,
+        db,
+        router,
+        logger,
+        activeOrderTtlSeconds: 3600,
+        sleeper: { sleep: async () => {} }
+      },
+      order.orderId
+    );
+
+    const statuses = (await activeStore.listEvents(order.orderId)).map((e) => e.status);
+    expect(statuses).toEqual(['routing', 'expired']);
+    const stored = await db.getOrder(order.orderId);
+    expect(stored?.status).toBe('expired');
+    expect(stored?.txHash).toBeNull();
+  });
+
+  test('computeMinAcceptablePrice applies slippageBps to the quoted price', () => {
+    expect(computeMinAcceptablePrice(2, 50)).toBeCloseTo(1.99);
+    expect(computeMinAcceptablePrice(2, 0)).toBe(2);
+  });
+
+  test('executeOrderJob fails without retrying when executedPrice breaches slippageBps', async () => {
+    const db = createHermeticPgMemDb();
+    await db.initSchema();
+
+    const activeStore = new InMemoryActiveOrderStore();
+    const eventBus = new InMemoryEventBus();
+    const logger = noopLogger();
+    const order = makeOrder({ orderId: 'order-slippage', slippageBps: 10 });
+    await activeStore.putActiveOrder(order, 3600);
+    await db.insertOrder(order);
+
+    // random=0 drifts the executed price by -0.5%, beyond the 0.1% tolerance.
+    const inner = new MockDexRouter({ logger, random: () => 0, sleepFn: async () => {} });
+    let swaps = 0;
+    const router = {
+      route: inner.route.bind(inner),
+      executeSwap: async (...args: Parameters<MockDexRouter['executeSwap']>) => {
+        swaps++;
+        return await inner.executeSwap(...args);
+      }
+    } as unknown as MockDexRouter;
+
+    await expect(
+      executeOrderJob(
+        {
+          connection: {},
+          activeStore,
+          eventBus,
+          db,
+          router,
+          logger,
+          activeOrderTtlSeconds: 3600,
+          sleeper: { sleep: async () => {} }
+        },
+        order.orderId
+      )
+    ).rejects.toThrow(/Slippage exceeded/);
+
+    expect(swaps).toBe(1);
+    const stored = await db.getOrder(order.orderId);
+    expect(stored?.status).toBe('failed');
+    expect(stored?.failureReason).toMatch(/^Slippage exceeded/);
+    const statuses = (await activeStore.listEvents(order.orderId)).map((e) => e.status);
+    expect(statuses).toEqual(['routing', 'building', 'submitted', 'failed']);
+  });
+
+  test('computeMaxAmountIn applies slippageBps on top of the quoted input', () => {
+    expect(computeMaxAmountIn(100, 50)).toBeCloseTo(100.5);
+    expect(computeMaxAmountIn(100, 0)).toBe(100);
+  });
+
+  test('exact_out order receives exactly amount and records both amounts', async () => {
+    const db = createHermeticPgMemDb();
+    await db.initSchema();
+
+    const activeStore = new InMemoryActiveOrderStore();
+    const eventBus = new InMemoryEventBus();
+    const logger = noopLogger();
+    const order = makeOrder({ orderId: 'order-exact-out', amount: 500, swapMode: 'exact_out' });
+    await activeStore.putActiveOrder(order, 3600);
+    await db.insertOrder(order);
+
+    const router = new MockDexRouter({ logger, random: () => 0.5, sleepFn: async () => {} });
+    await executeOrderJob(
+      {
+        connection: {},
+        activeStore,
+        eventBus,
+        db,
+        router,
+        logger,
+        activeOrderTtlSeconds: 3600,
+        sleeper: { sleep: async () => {} }
+      },
+      order.orderId
+    );
+
+    const events = await activeStore.listEvents(order.orderId);
+    const confirmed = events[events.length - 1];
+    expect(confirmed).toEqual(expect.objectContaining({ status: 'confirmed', amountOut: 500 }));
+    const stored = await db.getOrder(order.orderId);
+    expect(stored?.swapMode).toBe('exact_out');
+    expect(stored?.amountOut).toBe(500);
+    expect(stored?.amountIn).toBeCloseTo((confirmed as { amountIn: number }).amountIn);
+  });
+
+  test('exact_out order fails when the swap needs more input than slippageBps allows', async () => {
+    const db = createHermeticPgMemDb();
+    await db.initSchema();
+
+    const activeStore = new InMemoryActiveOrderStore();
+    const eventBus = new InMemoryEventBus();
+    const logger = noopLogger();
+    const order = makeOrder({ orderId: 'order-exact-out-slippage', swapMode: 'exact_out', slippageBps: 10 });
+    await activeStore.putActiveOrder(order, 3600);
+    await db.insertOrder(order);
+
+    // random=0 drifts the executed price by -0.5%, so the swap needs ~0.5% more input than quoted.
+    const router = new MockDexRouter({ logger, random: () => 0, sleepFn: async () => {} });
+    await expect(
+      executeOrderJob(
+        {
+          connection: {},
+          activeStore,
+          eventBus,
+          db,
+          router,
+          logger,
+          activeOrderTtlSeconds: 3600,
+          sleeper: { sleep: async () => {} }
+        },
+        order.orderId
+      )
+    ).rejects.toThrow(/Slippage exceeded: amountIn/);
+
+    const stored = await db.getOrder(order.orderId);
+    expect(stored?.status).toBe('failed');
+    expect(stored?.amountIn).toBeNull();
+  });
+
+  test('a swap the pool has moved past its slippage limit is rejected before the reserves move', async () => {
+    const db = createHermeticPgMemDb();
+    await db.initSchema();
+
+    const activeStore = new InMemoryActiveOrderStore();
+    const eventBus = new InMemoryEventBus();
+    const logger = noopLogger();
+    const order = makeOrder({ orderId: 'order-pool-moved', amount: 1_000, slippageBps: 50 });
+    await activeStore.putActiveOrder(order, 3600);
+    await db.insertOrder(order);
+
+    const profiles = MOCK_DEX_PROFILES.filter((p) => p.name === 'raydium');
+    const registry = createConstantProductDexRegistry({ profiles, sleepFn: async () => {}, random: () => 0 });
+    const router = new MockDexRouter({ logger, registry, graph: new TokenGraph([['SOL', 'USDC']]) });
+    const pool = registry.get('raydium') as ConstantProductDexAdapter;
+    let reservesBefore: [number, number] = [0, 0];
+
+    await expect(
+      executeOrderJob(
+        {
+          connection: {},
+          activeStore,
+          eventBus,
+          db,
+          router,
+          logger,
+          activeOrderTtlSeconds: 3600,
+          sleeper: {
+            // Another trader's swap lands between routing and submission and pushes the price past the limit.
+            sleep: async () => {
+              await pool.executeSwap(makeOrder({ orderId: 'front-run', amount: 50_000 }), 0);
+              reservesBefore = pool.getReserves('SOL', 'USDC');
+            }
+          }
+        },
+        order.orderId
+      )
+    ).rejects.toThrow(/Slippage exceeded: executedPrice/);
+
+    expect(pool.getReserves('SOL', 'USDC')).toEqual(reservesBefore);
+    expect((await db.getOrder(order.orderId))?.status).toBe('failed');
+  });
+
+  test('split order executes every leg and records each fill with a volume-weighted price', async () => {
+    const db = createHermeticPgMemDb();
+    await db.initSchema();
+
+    const activeStore = new InMemoryActiveOrderStore();
+    const eventBus = new InMemoryEventBus();
+    const logger = noopLogger();
+    // Large enough that price impact makes splitting worthwhile.
+    const order = makeOrder({ orderId: 'order-split', amount: 10_000, slippageBps: 100 });
+    await activeStore.putActiveOrder(order, 3600);
+    await db.insertOrder(order);
+
+    const router = new MockDexRouter({ logger, random: () => 0.5, sleepFn: async () => {} });
+    const executeSwap = jest.spyOn(router, 'executeSwap');
+    await executeOrderJob(
+      {
+        connection: {},
+        activeStore,
+        eventBus,
+        db,
+        router,
+        logger,
+        activeOrderTtlSeconds: 3600,
+        sleeper: { sleep: async () => {} }
+      },
+      order.orderId
+    );
+
+    const legs = await db.listOrderLegs(order.orderId);
+    expect(legs).toHaveLength(2);
+    expect(executeSwap).toHaveBeenCalledTimes(2);
+    expect(new Set(legs.map((l) => l.dex)).size).toBe(2);
+    expect(legs.reduce((sum, l) => sum + l.amount, 0)).toBeCloseTo(10_000);
+
+    const stored = await db.getOrder(order.orderId);
+    const amountIn = legs.reduce((sum, l) => sum + l.amountIn, 0);
+    const vwap = legs.reduce((sum, l) => sum + l.executedPrice * l.amountIn, 0) / amountIn;
+    expect(stored?.status).toBe('confirmed');
+    expect(stored?.executedPrice).toBeCloseTo(vwap);
+    expect(stored?.amountOut).toBeCloseTo(legs.reduce((sum, l) => sum + l.amountOut, 0));
+
+    const events = await activeStore.listEvents(order.orderId);
+    expect(events[events.length - 1]).toEqual(expect.objectContaining({ status: 'confirmed', legs }));
+  });
+
+  test('a split leg that reverts after the other landed fails the order without re-running that leg', async () => {
+    const db = createHermeticPgMemDb();
+    await db.initSchema();
+
+    const activeStore = new InMemoryActiveOrderStore();
+    const eventBus = new InMemoryEventBus();
+    const logger = noopLogger();
+    const order = makeOrder({ orderId: 'order-split-revert', amount: 10_000, slippageBps: 100 });
+    await activeStore.putActiveOrder(order, 3600);
+    await db.insertOrder(order);
+
+    const router = new MockDexRouter({ logger, random: () => 0.5, sleepFn: async () => {} });
+    const [landed, reverted] = ((await router.route(order)).split?.legs ?? []).map((l) => l.dex);
+    router.faults.inject({ dex: reverted, kind: 'swap_revert', remaining: 1 });
+    const executeSwap = jest.spyOn(router, 'executeSwap');
+
+    const error = await executeOrderJob(
+      {
+        connection: {},
+        activeStore,
+        eventBus,
+        db,
+        router,
+        logger,
+        activeOrderTtlSeconds: 3600,
+        sleeper: { sleep: async () => {} }
+      },
+      order.orderId
+    ).catch((err: unknown) => err);
+
+    expect(error).toBeInstanceOf(PartialExecutionError);
+    expect(executeSwap).toHaveBeenCalledTimes(2);
+    const stored = await db.getOrder(order.orderId);
+    expect(stored?.status).toBe('failed');
+    expect(stored?.failureReason).toBe(`Swap on ${reverted} reverted after 1 of 2 swaps landed`);
+    expect((await db.listOrderLegs(order.orderId)).map((l) => l.dex)).toEqual([landed]);
+  });
+
+  test('multi-hop order executes its hops in sequence and records each one', async () => {
+    const db = createHermeticPgMemDb();
+    await db.initSchema();
+
+    const activeStore = new InMemoryActiveOrderStore();
+    const eventBus = new InMemoryEventBus();
+    const logger = noopLogger();
+    const order = makeOrder({ orderId: 'order-multi-hop', tokenIn: 'BONK', tokenOut: 'USDC', amount: 100 });
+    await activeStore.putActiveOrder(order, 3600);
+    await db.insertOrder(order);
+
+    const router = new MockDexRouter({ logger, random: () => 0.5, sleepFn: async () => {} });
+    await executeOrderJob(
+      {
+        connection: {},
+        activeStore,
+        eventBus,
+        db,
+        router,
+        logger,
+        activeOrderTtlSeconds: 3600,
+        sleeper: { sleep: async () => {} }
+      },
+      order.orderId
+    );
+
+    const legs = await db.listOrderLegs(order.orderId);
+    expect(legs.map((l) => [l.tokenIn, l.tokenOut])).toEqual([
+      ['BONK', 'SOL'],
+      ['SOL', 'USDC']
+    ]);
+    expect(legs[0].amountIn).toBe(100);
+    expect(legs[1].amount).toBeCloseTo(legs[0].amountOut);
+
+    const stored = await db.getOrder(order.orderId);
+    expect(stored?.status).toBe('confirmed');
+    expect(stored?.dexChosen).toBe(`${legs[0].dex}>${legs[1].dex}`);
+    expect(stored?.amountIn).toBe(100);
+    expect(stored?.amountOut).toBeCloseTo(legs[1].amountOut);
+    expect(stored?.executedPrice).toBeCloseTo(legs[0].executedPrice * legs[1].executedPrice);
+  });
+
+  test('a hop that reverts after the first hop landed fails the order without spending tokenIn again', async () => {
+    const db = createHermeticPgMemDb();
+    await db.initSchema();
+
+    const activeStore = new InMemoryActiveOrderStore();
+    const eventBus = new InMemoryEventBus();
+    const logger = noopLogger();
+    const order = makeOrder({ orderId: 'order-hop-revert', tokenIn: 'BONK', tokenOut: 'USDC', amount: 100 });
+    await activeStore.putActiveOrder(order, 3600);
+    await db.insertOrder(order);
+
+    const router = new MockDexRouter({ logger, random: () => 0.5, sleepFn: async () => {} });
+    const execute = router.executeSwap.bind(router);
+    let reverted = false;
+    const executeSwap = jest.spyOn(router, 'executeSwap').mockImplementation(async (dex, swap, ...rest) => {
+      if (swap.tokenIn === 'SOL' && !reverted) {
+        reverted = true;
+        throw new SwapRevertedError(dex);
+      }
+      return await execute(dex, swap, ...rest);
+    });
+
+    const error = await executeOrderJob(
+      {
+        connection: {},
+        activeStore,
+        eventBus,
+        db,
+        router,
+        logger,
+        activeOrderTtlSeconds: 3600,
+        sleeper: { sleep: async () => {} }
+      },
+      order.orderId
+    ).catch((err: unknown) => err);
+
+    expect(error).toBeInstanceOf(PartialExecutionError);
+    expect(executeSwap).toHaveBeenCalledTimes(2);
+    const legs = await db.listOrderLegs(order.orderId);
+    expect(legs.map((l) => [l.tokenIn, l.tokenOut])).toEqual([['BONK', 'SOL']]);
+    expect((await db.getOrder(order.orderId))?.failureReason).toMatch(/reverted after 1 of 2 swaps landed$/);
+  });
+
+  test('a partial fill on a later hop fails the order with every landed hop recorded', async () => {
+    const db = createHermeticPgMemDb();
+    await db.initSchema();
+
+    const activeStore = new InMemoryActiveOrderStore();
+    const eventBus = new InMemoryEventBus();
+    const logger = noopLogger();
+    const order = makeOrder({ orderId: 'order-hop-partial', tokenIn: 'BONK', tokenOut: 'USDC', amount: 100 });
+    await activeStore.putActiveOrder(order, 3600);
+    await db.insertOrder(order);
+
+    const router = new MockDexRouter({ logger, random: () => 0.5, sleepFn: async () => {} });
+    const execute = router.executeSwap.bind(router);
+    jest.spyOn(router, 'executeSwap').mockImplementation(async (dex, swap, ...rest) =>
+      execute(dex, swap.tokenIn === 'SOL' ? { ...swap, amount: swap.amount / 2 } : swap, ...rest)
+    );
+
+    const error = await executeOrderJob(
+      {
+        connection: {},
+        activeStore,
+        eventBus,
+        db,
+        router,
+        logger,
+        activeOrderTtlSeconds: 3600,
+        sleeper: { sleep: async () => {} }
+      },
+      order.orderId
+    ).catch((err: unknown) => err);
+
+    expect((error as Error).name).toBe('PartialFillError');
+    const legs = await db.listOrderLegs(order.orderId);
+    expect(legs.map((l) => [l.tokenIn, l.tokenOut])).toEqual([
+      ['BONK', 'SOL'],
+      ['SOL', 'USDC']
+    ]);
+    expect(legs[1].amountIn).toBeCloseTo(legs[0].amountOut / 2);
+  });
+
+  describe('time-in-force', () => {
+    async function setup(order: Order) {
+      const db = createHermeticPgMemDb();
+      await db.initSchema();
+      const activeStore = new InMemoryActiveOrderStore();
+      await activeStore.putActiveOrder(order, 3600);
+      await db.insertOrder(order);
+      return { db, activeStore, eventBus: new InMemoryEventBus(), logger: noopLogger() };
+    }
+
+    afterEach(() => {
+      jest.restoreAllMocks();
+    });
+
+    test('order whose deadline passed while queued expires without routing', async () => {
+      const order = makeOrder({ orderId: 'order-deadline-queued', deadlineMs: Date.now() - 1 });
+      const { db, activeStore, eventBus, logger } = await setup(order);
+      const router = new MockDexRouter({ logger, random: () => 0.5, sleepFn: async () => {} });
+      const route = jest.spyOn(router, 'route');
+
+      await executeOrderJob(
+        { connection: {}, activeStore, eventBus, db, router, logger, activeOrderTtlSeconds: 3600 },
+        order.orderId
+      );
+
+      expect(route).not.toHaveBeenCalled();
+      const events = await activeStore.listEvents(order.orderId);
+      expect(events.map((e) => e.status)).toEqual(['expired']);
+      expect(events[0]).toEqual(expect.objectContaining({ reason: expect.stringMatching(/before routing/) }));
+      expect((await db.getOrder(order.orderId))?.status).toBe('expired');
+    });
+
+    test('deadline passing after routing expires the order before it is submitted', async () => {
+      let clock = Date.now();
+      jest.spyOn(Date, 'now').mockImplementation(() => clock);
+      const order = makeOrder({ orderId: 'order-deadline-submit', deadlineMs: clock + 100 });
+      const { db, activeStore, eventBus, logger } = await setup(order);
+      const router = new MockDexRouter({ logger, random: () => 0.5, sleepFn: async () => {} });
+      const executeSwap = jest.spyOn(router, 'executeSwap');
+
+      await executeOrderJob(
+        {
+          connection: {},
+          activeStore,
+          eventBus,
+          db,
+          router,
+          logger,
+          activeOrderTtlSeconds: 3600,
+          sleeper: {
+            sleep: async (ms: number) => {
+              clock += ms;
+            }
+          }
+        },
+        order.orderId
+      );
+
+      expect(executeSwap).not.toHaveBeenCalled();
+      const statuses = (await activeStore.listEvents(order.orderId)).map((e) => e.status);
+      expect(statuses).toEqual(['routing', 'building', 'expired']);
+      const stored = await db.getOrder(order.orderId);
+      expect(stored?.status).toBe('expired');
+      expect(stored?.failureReason).toMatch(/before submission/);
+    });
+
+    test('ioc limit order expires at once instead of resting', async () => {
+      const order = makeOrder({
+        orderId: 'order-limit-ioc',
+        type: 'limit',
+        limitPrice: 1_000,
+        expiresAtMs: Date.now() + 60_000,
+        timeInForce: 'ioc'
+      });
+      const { db, activeStore, eventBus, logger } = await setup(order);
+      const router = new MockDexRouter({ logger, random: () => 0.5, sleepFn: async () => {} });
+      const waits: number[] = [];
+
+      await executeOrderJob(
+        {
+          connection: {},
+          activeStore,
+          eventBus,
+          db,
+          router,
+          logger,
+          activeOrderTtlSeconds: 3600,
+          sleeper: {
+            sleep: async (ms: number) => {
+              waits.push(ms);
+            }
+          }
+        },
+        order.orderId
+      );
+
+      expect(waits).toEqual([]);
+      const statuses = (await activeStore.listEvents(order.orderId)).map((e) => e.status);
+      expect(statuses).toEqual(['routing', 'expired']);
+      expect((await db.getOrder(order.orderId))?.failureReason).toMatch(/not immediately reachable/);
+    });
+
+    test('fok order is not retried after a failed attempt', async () => {
+      const order = makeOrder({ orderId: 'order-fok', timeInForce: 'fok' });
+      const { db, activeStore, eventBus, logger } = await setup(order);
+      let routeCalls = 0;
+      const router = {
+        route: async () => {
+          routeCalls++;
+          throw new Error('venue unavailable');
+        }
+      } as unknown as MockDexRouter;
+
+      await expect(
+        executeOrderJob(
+          {
+            connection: {},
+            activeStore,
+            eventBus,
+            db,
+            router,
+            logger,
+            activeOrderTtlSeconds: 3600,
+            sleeper: { sleep: async () => {} }
+          },
+          order.orderId
+        )
+      ).rejects.toThrow('venue unavailable');
+
+      expect(routeCalls).toBe(1);
+      expect((await db.getOrder(order.orderId))?.status).toBe('failed');
+    });
+  });
+
+  describe('quote freshness', () => {
+    let clock = 0;
+
+    beforeEach(() => {
+      clock = Date.now();
+      jest.spyOn(Date, 'now').mockImplementation(() => clock);
+    });
+
+    afterEach(() => {
+      jest.restoreAllMocks();
+    });
+
+    /**
+     * Direct-only router whose venues quote at `levels[dex]`; at 0.5 each Raydium is best. The first route call
+     * runs `afterFirstRoute`, standing in for the market moving while the order is in flight.
+     */
+    function movingRouter(afterFirstRoute: (levels: Record<string, number>) => void): MockDexRouter {
+      const levels: Record<string, number> = { raydium: 0.5, meteora: 0.5, orca: 0.5, phoenix: 0.5 };
+      const registry = createMockDexRegistry({ randomFor: (dex) => () => levels[dex], sleepFn: async () => {} });
+      const router = new MockDexRouter({ logger: noopLogger(), registry, graph: new TokenGraph([['SOL', 'USDC']]) });
+      const route = router.route.bind(router);
+      jest.spyOn(router, 'route').mockImplementationOnce(async (order) => {
+        const decision = await route(order);
+        afterFirstRoute(levels);
+        return decision;
+      });
+      return router;
+    }
+
+    async function run(orderId: string, router: MockDexRouter, maxQuoteAgeMs?: number, overrides: Partial<Order> = {}) {
+      const db = createHermeticPgMemDb();
+      await db.initSchema();
+      const activeStore = new InMemoryActiveOrderStore();
+      const order = makeOrder({ ...overrides, orderId });
+      await activeStore.putActiveOrder(order, 3600);
+      await db.insertOrder(order);
+      await executeOrderJob(
+        {
+          connection: {},
+          activeStore,
+          eventBus: new InMemoryEventBus(),
+          db,
+          router,
+          logger: noopLogger(),
+          activeOrderTtlSeconds: 3600,
+          sleeper: {
+            sleep: async (ms: number) => {
+              clock += ms;
+            }
+          },
+          maxQuoteAgeMs
+        },
+        orderId
+      );
+      return { events: await activeStore.listEvents(orderId), stored: await db.getOrder(orderId) };
+    }
+
+    test('a quote older than maxQuoteAgeMs is refreshed before submission', async () => {
+      const router = movingRouter((levels) => {
+        levels.raydium = 0;
+      });
+      // The 150ms build step ages the quote past 100ms.
+      const { events, stored } = await run('order-stale', router, 100);
+
+      expect(router.route).toHaveBeenCalledTimes(2);
+      expect(events.map((e) => e.status)).toEqual(['routing', 'building', 'requoted', 'submitted', 'confirmed']);
+      expect(events[2]).toEqual(
+        expect.objectContaining({
+          reason: 'stale_quote',
+          previousDex: 'raydium',
+          previousEffectivePrice: expect.any(Number),
+          dex: 'orca',
+          effectivePrice: expect.any(Number)
+        })
+      );
+      expect(stored?.dexChosen).toBe('orca');
+      expect(stored?.routingReasons?.find((r) => r.chosen)?.dex).toBe('orca');
+    });
+
+    test('a limit order whose stale route no longer meets its limit expires instead of resting', async () => {
+      const limitPrice = (await movingRouter(() => {}).route(makeOrder())).chosen.effectivePrice;
+      const router = movingRouter((levels) => {
+        for (const dex of Object.keys(levels)) levels[dex] = 0;
+      });
+      const limit: Partial<Order> = { type: 'limit', limitPrice, expiresAtMs: clock + 60_000 };
+      const { events, stored } = await run('order-stale-limit', router, 100, limit);
+
+      expect(router.route).toHaveBeenCalledTimes(2);
+      expect(events.map((e) => e.status)).toEqual(['routing', 'building', 'expired']);
+      expect(stored?.failureReason).toBe(`limitPrice ${limitPrice} no longer reached when re-quoting a stale route`);
+    });
+
+    test('a fresh quote is submitted as routed', async () => {
+      const router = movingRouter((levels) => {
+        levels.raydium = 0;
+      });
+      const { events, stored } = await run('order-fresh', router);
+
+      expect(router.route).toHaveBeenCalledTimes(1);
+      expect(events.map((e) => e.status)).not.toContain('requoted');
+      expect(stored?.dexChosen).toBe('raydium');
+    });
+
+    test('a retry re-quotes and reports the move to another venue', async () => {
+      const router = movingRouter((levels) => {
+        levels.raydium = 0;
+      });
+      router.faults.inject({ dex: 'raydium', kind: 'swap_revert', remaining: 1 });
+      const { events, stored } = await run('order-retry', router);
+
+      expect(events.map((e) => e.status)).toEqual(['routing', 'building', 'submitted', 'requoted', 'confirmed']);
+      expect(events[3]).toEqual(expect.objectContaining({ reason: 'retry', previousDex: 'raydium', dex: 'orca' }));
+      expect(stored?.dexChosen).toBe('orca');
+    });
+  });
+});
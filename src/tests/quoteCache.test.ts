@@ -0,0 +1,157 @@
+import { MockDexRouter } from '../dex/mockDexRouter';
+import { createMockDexRegistry, MOCK_DEX_PROFILES } from '../dex/mockDexAdapter';
+import {
+  ConstantProductDexAdapter,
+  createConstantProductDexRegistry,
+  DEFAULT_POOL_DEPTHS
+} from '../dex/constantProductAdapter';
+import { QuoteCache, quoteCacheKey } from '../dex/quoteCache';
+import { TokenGraph } from '../dex/tokenGraph';
+import type { DexQuote, Logger, Order, QuoteRequest } from '../types';
+
+function noopLogger(): Logger {
+  return { info: () => {}, warn: () => {}, error: () => {} };
+}
+
+function makeOrder(overrides: Partial<Order> = {}): Order {
+  return {
+    orderId: overrides.orderId ?? 'order-1',
+    type: 'market',
+    tokenIn: 'SOL',
+    tokenOut: 'USDC',
+    amount: overrides.amount ?? 100,
+    slippageBps: 50,
+    createdAtMs: 1
+  };
+}
+
+function raydiumPool(): ConstantProductDexAdapter {
+  const { varianceMin: _min, varianceRange: _range, ...profile } = MOCK_DEX_PROFILES[0];
+  return new ConstantProductDexAdapter({
+    profile: { ...profile, quoteFailureRate: 0, defaultDepth: DEFAULT_POOL_DEPTHS.raydium },
+    sleepFn: async () => {}
+  });
+}
+
+const request = (amount: number): QuoteRequest => ({ tokenIn: 'SOL', tokenOut: 'USDC', amount });
+
+describe('Quote cache', () => {
+  test('concurrent routes for the same order share one quote per venue', async () => {
+    const registry = createMockDexRegistry({ random: () => 0.5, sleepFn: async () => {} });
+    const getQuotes = registry.list().map((adapter) => jest.spyOn(adapter, 'getQuote'));
+    const router = new MockDexRouter({
+      logger: noopLogger(),
+      registry,
+      graph: new TokenGraph([['SOL', 'USDC']]),
+      quoteCache: new QuoteCache({ ttlMs: 60_000 })
+    });
+
+    const decisions = await Promise.all(Array.from({ length: 10 }, () => router.route(makeOrder())));
+    expect(new Set(decisions.map((d) => d.chosen.effectivePrice)).size).toBe(1);
+    for (const spy of getQuotes) expect(spy).toHaveBeenCalledTimes(1);
+    const stats = router.quoteCache.stats();
+    expect(stats.misses).toBe(4);
+    expect(stats.hits + stats.coalesced).toBe(36);
+
+    await router.route(makeOrder());
+    expect(router.quoteCache.stats().misses).toBe(4);
+  });
+
+  test('a hit for another amount in the bucket is repriced at that amount', async () => {
+    const adapter = raydiumPool();
+    const cache = new QuoteCache({ ttlMs: 60_000 });
+    // 100 and 105 share a bucket; 120 does not.
+    expect(quoteCacheKey('raydium', request(105))).toBe(quoteCacheKey('raydium', request(100)));
+    expect(quoteCacheKey('raydium', request(120))).not.toBe(quoteCacheKey('raydium', request(100)));
+
+    await cache.get(adapter, request(100), () => adapter.getQuote(request(100)));
+    const load = jest.fn(() => adapter.getQuote(request(105)));
+    const { quote } = await cache.get(adapter, request(105), load);
+    expect(load).not.toHaveBeenCalled();
+    expect(quote.amount).toBe(105);
+    expect(quote.effectivePrice).toBeCloseTo(adapter.quoteAtSize(quote, request(105)).effectivePrice, 12);
+    expect(cache.stats()).toEqual(expect.objectContaining({ entries: 1, hits: 1, misses: 1 }));
+  });
+
+  test('a swap drops the venue and pair from the cache, so the next route prices the moved pool', async () => {
+    const profiles = MOCK_DEX_PROFILES.filter((p) => p.name === 'raydium' || p.name === 'orca');
+    const registry = createConstantProductDexRegistry({ profiles, sleepFn: async () => {}, random: () => 0 });
+    const router = new MockDexRouter({
+      logger: noopLogger(),
+      registry,
+      graph: new TokenGraph([['SOL', 'USDC']]),
+      quoteCache: new QuoteCache({ ttlMs: 60_000 })
+    });
+    const order = makeOrder({ amount: 1_000 });
+
+    const before = await router.route(order);
+    const raydiumBefore = before.quotes.find((q) => q.dex === 'raydium') as DexQuote;
+    await router.executeSwap('raydium', order, raydiumBefore.price);
+
+    const after = await router.route(order);
+    const raydiumAfter = after.quotes.find((q) => q.dex === 'raydium') as DexQuote;
+    const orcaAfter = after.quotes.find((q) => q.dex === 'orca') as DexQuote;
+    expect(raydiumAfter.effectivePrice).toBeLessThan(raydiumBefore.effectivePrice);
+    expect(orcaAfter.effectivePrice).toBe(before.quotes.find((q) => q.dex === 'orca')?.effectivePrice);
+    expect(router.quoteCache.stats()).toEqual(expect.objectContaining({ entries: 2, hits: 1, misses: 3 }));
+  });
+
+  test('a quote requested before a swap is not cached after it', async () => {
+    const adapter = raydiumPool();
+    const cache = new QuoteCache({ ttlMs: 60_000 });
+    let release: () => void = () => {};
+    const slow = () =>
+      new Promise<DexQuote>((resolve) => {
+        release = () => void adapter.getQuote(request(10)).then(resolve);
+      });
+
+    const pending = cache.get(adapter, request(10), slow);
+    cache.invalidate('raydium', 'USDC', 'SOL');
+    release();
+    await pending;
+    expect(cache.stats().entries).toBe(0);
+  });
+
+  test('entries expire after the TTL and a hit keeps the original quote time', async () => {
+    const adapter = raydiumPool();
+    let clock = 1_000;
+    const cache = new QuoteCache({ ttlMs: 500, now: () => clock });
+    const load = () => adapter.getQuote(request(10));
+
+    await cache.get(adapter, request(10), load);
+    clock += 499;
+    expect((await cache.get(adapter, request(10), load)).quotedAtMs).toBe(1_000);
+    clock += 1;
+    expect((await cache.get(adapter, request(10), load)).quotedAtMs).toBe(1_500);
+    expect(cache.stats()).toEqual(expect.objectContaining({ hits: 1, misses: 2 }));
+  });
+
+  test('failed quotes are not cached', async () => {
+    const profiles = MOCK_DEX_PROFILES.filter((p) => p.name === 'raydium');
+    const registry = createMockDexRegistry({ profiles, random: () => 0.5, sleepFn: async () => {} });
+    const router = new MockDexRouter({
+      logger: noopLogger(),
+      registry,
+      sleepFn: async () => {},
+      graph: new TokenGraph([['SOL', 'USDC']]),
+      quoteCache: new QuoteCache({ ttlMs: 60_000 })
+    });
+    router.faults.inject({ dex: 'raydium', kind: 'quote_timeout', timeoutMs: 10, remaining: 1 });
+
+    const failed = await Promise.allSettled([router.route(makeOrder()), router.route(makeOrder())]);
+    expect(failed.map((r) => r.status)).toEqual(['rejected', 'rejected']);
+    expect(router.quoteCache.stats()).toEqual(expect.objectContaining({ entries: 0, misses: 1, coalesced: 1 }));
+
+    await expect(router.route(makeOrder())).resolves.toBeDefined();
+    expect(router.quoteCache.stats()).toEqual(expect.objectContaining({ entries: 1, misses: 2 }));
+  });
+
+  test('a TTL of 0 sends every request to the venue', async () => {
+    const adapter = raydiumPool();
+    const cache = new QuoteCache({ ttlMs: 0 });
+    const load = jest.fn((): Promise<DexQuote> => adapter.getQuote(request(10)));
+    await Promise.all([cache.get(adapter, request(10), load), cache.get(adapter, request(10), load)]);
+    expect(load).toHaveBeenCalledTimes(2);
+    expect(cache.stats()).toEqual({ ttlMs: 0, entries: 0, hits: 0, misses: 2, coalesced: 0 });
+  });
+});
@@ -0,0 +1,199 @@
+import { buildServer } from '../server';
+import { createHermeticPgMemDb } from '../db';
+import {
+  InMemoryActiveOrderStore,
+  InMemoryEventBus,
+  InMemorySocketMappingStore
+} from '../services/orderService';
+import type { ExecuteOrderResponse, Logger, QueueClient, RouteQuote } from '../types';
+import { MockDexRouter } from '../dex/mockDexRouter';
+import { QuoteCache, type QuoteCacheStats } from '../dex/quoteCache';
+import { computeMinAcceptablePrice, executeOrderJob } from '../queue/orderWorker';
+
+function noopLogger(): Logger {
+  return { info: () => {}, warn: () => {}, error: () => {} };
+}
+
+class FakeQueueClient implements QueueClient {
+  public readonly enqueued: string[] = [];
+  public async enqueue(payload: { orderId: string }): Promise<void> {
+    this.enqueued.push(payload.orderId);
+  }
+  public async enqueueBulk(payloads: Array<{ orderId: string }>): Promise<void> {
+    this.enqueued.push(...payloads.map((p) => p.orderId));
+  }
+  public async remove(): Promise<boolean> {
+    return false;
+  }
+  public async close(): Promise<void> {}
+}
+
+async function startHermeticServer(opts: { router?: MockDexRouter } = {}) {
+  const logger = noopLogger();
+  const db = createHermeticPgMemDb();
+  const activeStore = new InMemoryActiveOrderStore();
+  const eventBus = new InMemoryEventBus();
+  const queue = new FakeQueueClient();
+  const router = opts.router ?? new MockDexRouter({ logger, random: () => 0.5, sleepFn: async () => {} });
+
+  const app = await buildServer({
+    logger,
+    db,
+    queue,
+    activeStore,
+    socketMapping: new InMemorySocketMappingStore(),
+    eventBus,
+    activeOrderTtlSeconds: 3600,
+    startWorker: false,
+    connectionForBullMq: {},
+    router
+  });
+
+  const address = await app.listen({ port: 0, host: '127.0.0.1' });
+  const baseUrl = `http://127.0.0.1:${Number(new URL(address).port)}`;
+  const workerDeps = {
+    connection: {},
+    activeStore,
+    eventBus,
+    db,
+    router,
+    logger,
+    activeOrderTtlSeconds: 3600,
+    sleeper: { sleep: async () => {} }
+  };
+  return { app, baseUrl, deps: { db, activeStore, queue, router }, workerDeps };
+}
+
+async function getQuote(baseUrl: string, qs = 'tokenIn=SOL&tokenOut=USDC&amount=10'): Promise<Response> {
+  return await fetch(`${baseUrl}/api/quotes?${qs}`);
+}
+
+async function submit(baseUrl: string, body: Record<string, unknown>): Promise<Response> {
+  return await fetch(`${baseUrl}/api/orders/execute`, {
+    method: 'POST',
+    headers: { 'content-type': 'application/json' },
+    body: JSON.stringify({ tokenIn: 'SOL', tokenOut: 'USDC', amount: 10, slippageBps: 100, ...body })
+  });
+}
+
+describe('Dry-run quotes (hermetic)', () => {
+  test('returns the full routing decision with a quote id and expiry, without creating an order', async () => {
+    const { app, baseUrl, deps } = await startHermeticServer();
+    try {
+      const res = await getQuote(baseUrl);
+      expect(res.status).toBe(200);
+      const quote = (await res.json()) as RouteQuote;
+
+      expect(quote.quoteId).toBeTruthy();
+      expect(quote.expiresAtMs).toBeGreaterThan(quote.createdAtMs);
+      expect(quote.decision.quotes.map((q) => [q.dex, q.feeRate])).toEqual([
+        ['raydium', 0.003],
+        ['meteora', 0.002],
+        ['orca', 0.0025],
+        ['phoenix', 0.001]
+      ]);
+      expect(quote.decision.quotes).toContainEqual(quote.decision.chosen);
+      expect(deps.queue.enqueued).toEqual([]);
+      expect(await deps.db.searchOrders({ limit: 10 })).toEqual([]);
+    } finally {
+      await app.close();
+    }
+  });
+
+  test('an order referencing the quote executes on the quoted venue within slippage of the quoted price', async () => {
+    const { app, baseUrl, deps, workerDeps } = await startHermeticServer();
+    try {
+      const quote = (await (await getQuote(baseUrl)).json()) as RouteQuote;
+      const res = await submit(baseUrl, { quoteId: quote.quoteId });
+      expect(res.status).toBe(200);
+      const { orderId } = (await res.json()) as ExecuteOrderResponse;
+
+      const route = jest.spyOn(deps.router, 'route');
+      await executeOrderJob(workerDeps, orderId);
+      expect(route).not.toHaveBeenCalled();
+
+      const stored = await deps.db.getOrder(orderId);
+      expect(stored?.status).toBe('confirmed');
+      expect(stored?.quoteId).toBe(quote.quoteId);
+      expect(stored?.dexChosen).toBe(quote.decision.chosen.dex);
+      expect(stored?.executedPrice as number).toBeGreaterThanOrEqual(
+        computeMinAcceptablePrice(quote.decision.chosen.price, 100)
+      );
+    } finally {
+      await app.close();
+    }
+  });
+
+  test('orders referencing an unknown, expired or mismatched quote are rejected', async () => {
+    const { app, baseUrl, deps } = await startHermeticServer();
+    try {
+      const quote = (await (await getQuote(baseUrl)).json()) as RouteQuote;
+      await deps.activeStore.putQuote({ ...quote, quoteId: 'stale', expiresAtMs: Date.now() - 1 });
+
+      expect((await submit(baseUrl, { quoteId: 'missing' })).status).toBe(400);
+      expect((await submit(baseUrl, { quoteId: 'stale' })).status).toBe(400);
+      expect((await submit(baseUrl, { quoteId: quote.quoteId, amount: 11 })).status).toBe(400);
+      const stopLoss = { quoteId: quote.quoteId, type: 'stop_loss', triggerPrice: 1 };
+      expect((await submit(baseUrl, stopLoss)).status).toBe(400);
+      expect((await submit(baseUrl, { quoteId: quote.quoteId, swapMode: 'exact_out' })).status).toBe(400);
+      // The quoted venue must be one the order's routing preferences allow.
+      const quotedDex = quote.decision.chosen.dex;
+      const excluded = await submit(baseUrl, { quoteId: quote.quoteId, excludeDexes: [quotedDex] });
+      expect(excluded.status).toBe(400);
+      expect(await excluded.json()).toEqual({ error: `quote is on ${quotedDex}, which the order excludes` });
+      const otherDex = quotedDex === 'orca' ? 'phoenix' : 'orca';
+      expect((await submit(baseUrl, { quoteId: quote.quoteId, pinnedDex: otherDex })).status).toBe(400);
+      expect(deps.queue.enqueued).toEqual([]);
+    } finally {
+      await app.close();
+    }
+  });
+
+  test('quotes through intermediate tokens list every hop and cannot be pinned', async () => {
+    const { app, baseUrl } = await startHermeticServer();
+    try {
+      const res = await getQuote(baseUrl, 'tokenIn=BONK&tokenOut=USDC&amount=10');
+      expect(res.status).toBe(200);
+      const quote = (await res.json()) as RouteQuote;
+      expect(quote.decision.hops?.map((h) => h.tokenOut)).toEqual(['SOL', 'USDC']);
+
+      const pinned = await submit(baseUrl, { tokenIn: 'BONK', quoteId: quote.quoteId });
+      expect(pinned.status).toBe(400);
+    } finally {
+      await app.close();
+    }
+  });
+
+  test('repeat quotes are served from the quote cache and its counters are exposed', async () => {
+    const router = new MockDexRouter({
+      logger: noopLogger(),
+      random: () => 0.5,
+      sleepFn: async () => {},
+      quoteCache: new QuoteCache({ ttlMs: 60_000 })
+    });
+    const { app, baseUrl } = await startHermeticServer({ router });
+    try {
+      expect((await getQuote(baseUrl)).status).toBe(200);
+      const first = (await (await fetch(`${baseUrl}/api/quotes/cache`)).json()) as QuoteCacheStats;
+      expect(first).toEqual(expect.objectContaining({ ttlMs: 60_000, hits: 0 }));
+      expect(first.misses).toBeGreaterThan(0);
+
+      expect((await getQuote(baseUrl)).status).toBe(200);
+      const second = (await (await fetch(`${baseUrl}/api/quotes/cache`)).json()) as QuoteCacheStats;
+      expect(second).toEqual(expect.objectContaining({ hits: first.misses, misses: first.misses }));
+    } finally {
+      await app.close();
+    }
+  });
+
+  test('rejects malformed quote requests', async () => {
+    const { app, baseUrl } = await startHermeticServer();
+    try {
+      expect((await getQuote(baseUrl, 'tokenIn=SOL&tokenOut=USDC')).status).toBe(400);
+      expect((await getQuote(baseUrl, 'tokenIn=SOL&tokenOut=USDC&amount=-5')).status).toBe(400);
+      expect((await getQuote(baseUrl, 'tokenOut=USDC&amount=5')).status).toBe(400);
+    } finally {
+      await app.close();
+    }
+  });
+});
@@ -1,5 +1,14 @@
-import { MockDexRouter } from '../dex/mockDexRouter';
-import type { Logger, Order } from '../types';
+import { MockDexRouter, NoRouteError } from '../dex/mockDexRouter';
+import { DexRegistry } from '../dex/dexRegistry';
+import { MOCK_DEX_PROFILES, MockDexAdapter, stableReferencePrice } from '../dex/mockDexAdapter';
+import {
+  ConstantProductDexAdapter,
+  createConstantProductDexRegistry,
+  InsufficientLiquidityError
+} from '../dex/constantProductAdapter';
+import { DEFAULT_BASE_FEE_LAMPORTS, inclusionLatencyFactor, LAMPORTS_PER_SOL } from '../dex/networkFees';
+import { TokenGraph } from '../dex/tokenGraph';
+import type { DexQuote, Logger, Order } from '../types';
 
 function noopLogger(): Logger {
   return { info: () => {}, warn: () => {}, error: () => {} };
@@ -34,8 +43,8 @@ describe('MockDexRouter routing logic', () => {
       sleepFn: async () => {}
     });
 
-    const ray = await router.getRaydiumQuote('SOL', 'USDC', 10);
-    const met = await router.getMeteoraQuote('SOL', 'USDC', 10);
+    const ray = await router.getQuote('raydium', 'SOL', 'USDC', 10);
+    const met = await router.getQuote('meteora', 'SOL', 'USDC', 10);
 
     expect(ray.feeRate).toBeCloseTo(0.003);
     expect(met.feeRate).toBeCloseTo(0.002);
@@ -43,23 +52,20 @@ describe('MockDexRouter routing logic', () => {
     expect(met.effectivePrice).toBeCloseTo(met.price * (1 - met.feeRate));
   });
 
-  test('route() selects the higher effectivePrice', async () => {
-    // Random sequence: Raydium variance uses first random, Meteora uses second.
-    // Make Raydium low and Meteora high.
+  test('route() quotes every registered venue and selects the highest effectivePrice', async () => {
+    // Venues draw randoms in registration order: Raydium gets the first (low), the rest get 1 (high).
+    // A direct-only graph keeps compounding high quotes over intermediate hops out of the comparison.
     const router = new MockDexRouter({
       logger: noopLogger(),
       random: seqRandom([0, 1]),
-      sleepFn: async () => {}
+      sleepFn: async () => {},
+      graph: new TokenGraph([['SOL', 'USDC']])
     });
 
     const decision = await router.route(makeOrder());
-    expect(['raydium', 'meteora']).toContain(decision.chosen.dex);
-    expect(decision.chosen.effectivePrice).toBeGreaterThanOrEqual(
-      Math.min(decision.raydium.effectivePrice, decision.meteora.effectivePrice)
-    );
-    expect(decision.chosen.effectivePrice).toBeCloseTo(
-      Math.max(decision.raydium.effectivePrice, decision.meteora.effectivePrice)
-    );
+    expect(decision.quotes.map((q) => q.dex)).toEqual(['raydium', 'meteora', 'orca', 'phoenix']);
+    expect(decision.quotes).toContainEqual(decision.chosen);
+    expect(decision.chosen.effectivePrice).toBeCloseTo(Math.max(...decision.quotes.map((q) => q.effectivePrice)));
   });
 
   test('quote variance stays within expected bounds (approx)', async () => {
@@ -70,8 +76,8 @@ describe('MockDexRouter routing logic', () => {
     });
     const order = makeOrder({ amount: 1 });
 
-    const ray = await router.getRaydiumQuote(order.tokenIn, order.tokenOut, order.amount);
-    const met = await router.getMeteoraQuote(order.tokenIn, order.tokenOut, order.amount);
+    const ray = await router.getQuote('raydium', order.tokenIn, order.tokenOut, order.amount);
+    const met = await router.getQuote('meteora', order.tokenIn, order.tokenOut, order.amount);
 
     // With random=1, raydium variance=1.02, meteora variance=1.02
     expect(ray.price).toBeGreaterThan(0);
@@ -105,15 +111,353 @@ describe('MockDexRouter routing logic', () => {
     expect(res.executedPrice).toBeCloseTo(quoted * 0.995);
   });
 
+  test('exact_out route() picks the venue needing the least input', async () => {
+    const router = new MockDexRouter({
+      logger: noopLogger(),
+      random: seqRandom([0, 1]),
+      sleepFn: async () => {}
+    });
+
+    const decision = await router.route({ ...makeOrder({ amount: 500 }), swapMode: 'exact_out' });
+    for (const q of decision.quotes) expect(q.requiredAmountIn).toBeCloseTo(500 / q.effectivePrice);
+    const required = decision.quotes.map((q) => q.requiredAmountIn as number);
+    expect(decision.chosen.requiredAmountIn).toBe(Math.min(...required));
+  });
+
+  test('executeSwap reports input and output amounts net of the venue fee', async () => {
+    const router = new MockDexRouter({
+      logger: noopLogger(),
+      random: () => 0.5, // drift = 1
+      sleepFn: async () => {}
+    });
+
+    const exactIn = await router.executeSwap('raydium', makeOrder({ amount: 10 }), 2);
+    expect(exactIn.amountIn).toBe(10);
+    expect(exactIn.amountOut).toBeCloseTo(10 * 2 * (1 - 0.003));
+
+    const exactOut = await router.executeSwap('raydium', { ...makeOrder({ amount: 10 }), swapMode: 'exact_out' }, 2);
+    expect(exactOut.amountOut).toBe(10);
+    expect(exactOut.amountIn).toBeCloseTo(10 / (2 * (1 - 0.003)));
+  });
+
   test('higher amount produces lower (or equal) quote due to amountFactor', async () => {
     const router = new MockDexRouter({
       logger: noopLogger(),
       random: () => 0.5,
       sleepFn: async () => {}
     });
-    const small = await router.getRaydiumQuote('SOL', 'USDC', 1);
-    const big = await router.getRaydiumQuote('SOL', 'USDC', 50_000);
+    const small = await router.getQuote('raydium', 'SOL', 'USDC', 1);
+    const big = await router.getQuote('raydium', 'SOL', 'USDC', 50_000);
     expect(big.price).toBeLessThanOrEqual(small.price);
   });
+
+  test('small orders go whole to the best venue', async () => {
+    const router = new MockDexRouter({ logger: noopLogger(), random: () => 0.5, sleepFn: async () => {} });
+    const decision = await router.route(makeOrder({ amount: 10 }));
+    expect(decision.split).toBeUndefined();
+  });
+
+  test('large orders split across two venues when the blended effective price is better', async () => {
+    const router = new MockDexRouter({ logger: noopLogger(), random: () => 0.5, sleepFn: async () => {} });
+    const decision = await router.route(makeOrder({ amount: 10_000 }));
+    const split = decision.split;
+    if (!split) throw new Error('expected a split route');
+
+    expect(split.legs).toHaveLength(2);
+    expect(split.legs[0].dex).not.toBe(split.legs[1].dex);
+    expect(split.legs.reduce((sum, l) => sum + l.amount, 0)).toBeCloseTo(10_000);
+    const blended = split.legs.reduce((sum, l) => sum + l.amount * l.effectivePrice, 0) / 10_000;
+    expect(split.effectivePrice).toBeCloseTo(blended);
+    expect(split.effectivePrice).toBeGreaterThan(decision.chosen.effectivePrice);
+  });
+
+  test('exact_out splits minimize the total input', async () => {
+    const router = new MockDexRouter({ logger: noopLogger(), random: () => 0.5, sleepFn: async () => {} });
+    const decision = await router.route({ ...makeOrder({ amount: 10_000 }), swapMode: 'exact_out' });
+    const split = decision.split;
+    if (!split) throw new Error('expected a split route');
+
+    const required = split.legs.map((l) => l.requiredAmountIn as number);
+    expect(split.requiredAmountIn).toBeCloseTo(required[0] + required[1]);
+    expect(split.requiredAmountIn as number).toBeLessThan(decision.chosen.requiredAmountIn as number);
+  });
+
+  test('a venue registered on a custom registry is routed to and executed against', async () => {
+    const sleepFn = async () => {};
+    const registry = new DexRegistry([
+      new MockDexAdapter({ profile: MOCK_DEX_PROFILES[0], random: () => 0, sleepFn }),
+      new MockDexAdapter({
+        profile: { ...MOCK_DEX_PROFILES[0], name: 'lifinity', feeRate: 0, varianceMin: 1.1 },
+        random: () => 0,
+        sleepFn
+      })
+    ]);
+    const router = new MockDexRouter({ logger: noopLogger(), registry, graph: new TokenGraph([['SOL', 'USDC']]) });
+
+    const decision = await router.route(makeOrder());
+    expect(decision.quotes.map((q) => q.dex)).toEqual(['raydium', 'lifinity']);
+    expect(decision.chosen.dex).toBe('lifinity');
+    expect((await router.executeSwap('lifinity', makeOrder(), decision.chosen.price)).dex).toBe('lifinity');
+    await expect(router.executeSwap('orca', makeOrder(), 1)).rejects.toThrow(/Unknown DEX: orca/);
+  });
+
+  test('registry rejects duplicate venue names', () => {
+    const registry = new DexRegistry([new MockDexAdapter({ profile: MOCK_DEX_PROFILES[0] })]);
+    expect(() => registry.register(new MockDexAdapter({ profile: MOCK_DEX_PROFILES[0] }))).toThrow(
+      /already registered/
+    );
+  });
+
+  test('token graph lists paths through listed pools, shortest first', () => {
+    const graph = new TokenGraph([
+      ['BONK', 'SOL'],
+      ['SOL', 'USDC'],
+      ['SOL', 'USDT'],
+      ['USDT', 'USDC']
+    ]);
+    expect(graph.hasPool('BONK', 'USDC')).toBe(false);
+    expect(graph.hasPool('USDC', 'SOL')).toBe(true);
+    // Tokens the graph has never seen are assumed to have a direct pool.
+    expect(graph.hasPool('SOL', 'NEWCOIN')).toBe(true);
+    expect(graph.paths('BONK', 'USDC')).toEqual([
+      ['BONK', 'SOL', 'USDC'],
+      ['BONK', 'SOL', 'USDT', 'USDC']
+    ]);
+    expect(graph.paths('BONK', 'USDC', 2)).toEqual([['BONK', 'SOL', 'USDC']]);
+  });
+
+  test('pairs without a direct pool route through an intermediate token', async () => {
+    const router = new MockDexRouter({ logger: noopLogger(), random: () => 0.5, sleepFn: async () => {} });
+    const decision = await router.route(makeOrder({ tokenIn: 'BONK', tokenOut: 'USDC', amount: 100 }));
+    const hops = decision.hops;
+    if (!hops) throw new Error('expected a multi-hop route');
+
+    expect(decision.quotes).toEqual([]);
+    expect(hops.map((h) => [h.tokenIn, h.tokenOut])).toEqual([
+      ['BONK', 'SOL'],
+      ['SOL', 'USDC']
+    ]);
+    for (const hop of hops) expect(hop.quotes).toHaveLength(4);
+    // The second hop is quoted at what the first is expected to deliver.
+    expect(hops[1].chosen.amount).toBeCloseTo(100 * hops[0].chosen.effectivePrice);
+    expect(decision.chosen.dex).toBe(`${hops[0].chosen.dex}>${hops[1].chosen.dex}`);
+    expect(decision.chosen.effectivePrice).toBeCloseTo(hops[0].chosen.effectivePrice * hops[1].chosen.effectivePrice);
+  });
+
+  test('direct pools win unless a path beats them after the extra fees', async () => {
+    const router = new MockDexRouter({ logger: noopLogger(), random: () => 0.5, sleepFn: async () => {} });
+    const decision = await router.route(makeOrder({ tokenIn: 'SOL', tokenOut: 'USDC' }));
+    expect(decision.hops).toBeUndefined();
+    expect(decision.quotes).toContainEqual(decision.chosen);
+  });
+
+  test('exact_out orders without a direct pool have no route', async () => {
+    const router = new MockDexRouter({ logger: noopLogger(), random: () => 0.5, sleepFn: async () => {} });
+    const order = { ...makeOrder({ tokenIn: 'BONK', tokenOut: 'USDC' }), swapMode: 'exact_out' as const };
+    await expect(router.route(order)).rejects.toThrow(NoRouteError);
+  });
 });
 
+describe('Routing preferences', () => {
+  // At random=0.5 Raydium quotes best, then Orca, Meteora and Phoenix; Phoenix is the fastest venue.
+  function router(logger: Logger = noopLogger()): MockDexRouter {
+    return new MockDexRouter({ logger, random: () => 0.5, sleepFn: async () => {} });
+  }
+
+  test('excluded venues are never quoted and the reasons say why', async () => {
+    const decision = await router().route({ ...makeOrder(), excludeDexes: ['raydium'] });
+    expect(decision.quotes.map((q) => q.dex)).toEqual(['meteora', 'orca', 'phoenix']);
+    expect(decision.chosen.dex).toBe('orca');
+    expect(decision.reasons).toEqual([
+      { dex: 'raydium', chosen: false, reason: 'excluded by the order' },
+      { dex: 'meteora', chosen: false, reason: expect.stringMatching(/^effective price .* vs /) },
+      { dex: 'orca', chosen: true, reason: expect.stringMatching(/^best effective price/) },
+      { dex: 'phoenix', chosen: false, reason: expect.stringMatching(/^effective price .* vs /) }
+    ]);
+  });
+
+  test('a pinned venue takes the whole order, even one a split would improve', async () => {
+    const decision = await router().route({ ...makeOrder({ amount: 5_000 }), pinnedDex: 'meteora' });
+    expect(decision.quotes.map((q) => q.dex)).toEqual(['meteora']);
+    expect(decision.split).toBeUndefined();
+    expect(decision.reasons?.find((r) => r.chosen)).toEqual({
+      dex: 'meteora',
+      chosen: true,
+      reason: 'pinned by the order'
+    });
+    expect(decision.reasons?.find((r) => r.dex === 'raydium')?.reason).toBe('order is pinned to meteora');
+  });
+
+  test('lowest_latency picks the fastest venue and never splits', async () => {
+    const decision = await router().route({ ...makeOrder({ amount: 5_000 }), routingObjective: 'lowest_latency' });
+    expect(decision.chosen.dex).toBe('phoenix');
+    expect(decision.split).toBeUndefined();
+    expect(decision.reasons?.find((r) => r.dex === 'phoenix')?.reason).toBe('lowest expected latency (1350ms)');
+    expect(decision.reasons?.find((r) => r.dex === 'raydium')?.reason).toBe('expected latency 2700ms vs 1350ms');
+  });
+
+  test('exclusions apply to every hop of a multi-hop route', async () => {
+    const decision = await router().route({ ...makeOrder({ tokenIn: 'BONK' }), excludeDexes: ['raydium', 'orca'] });
+    expect(decision.hops?.length).toBeGreaterThan(1);
+    for (const hop of decision.hops ?? []) expect(['meteora', 'phoenix']).toContain(hop.chosen.dex);
+  });
+
+  test('an order with no venue left has no route', async () => {
+    const excludeDexes = ['raydium', 'meteora', 'orca', 'phoenix'];
+    await expect(router().route({ ...makeOrder(), excludeDexes })).rejects.toThrow(
+      'every venue is excluded by the order'
+    );
+    await expect(router().route({ ...makeOrder(), pinnedDex: 'serum' })).rejects.toThrow(
+      'pinned venue serum is not registered'
+    );
+  });
+
+  test('routing.decision logs the preferences and the reasons', async () => {
+    const entries: Array<{ msg: string; meta?: Record<string, unknown> }> = [];
+    const logger: Logger = { info: (msg, meta) => entries.push({ msg, meta }), warn: () => {}, error: () => {} };
+    await router(logger).route({ ...makeOrder(), excludeDexes: ['phoenix'] });
+    const logged = entries.find((e) => e.msg === 'routing.decision')?.meta;
+    expect(logged).toEqual(
+      expect.objectContaining({ objective: 'best_price', excludeDexes: ['phoenix'], pinnedDex: null })
+    );
+    expect(logged?.reasons).toContainEqual({ dex: 'phoenix', chosen: false, reason: 'excluded by the order' });
+  });
+});
+
+describe('Network fees', () => {
+  function router(): MockDexRouter {
+    return new MockDexRouter({
+      logger: noopLogger(),
+      random: () => 0.5,
+      sleepFn: async () => {},
+      graph: new TokenGraph([['SOL', 'USDC']])
+    });
+  }
+
+  test('the network fee is converted to tokenOut and deducted from each quote', async () => {
+    const r = router();
+    const raw = await r.getQuote('raydium', 'SOL', 'USDC', 1);
+    const { quotes } = await r.route(makeOrder({ amount: 1 }));
+    const ray = quotes.find((q) => q.dex === 'raydium') as DexQuote;
+
+    const solInUsdc = stableReferencePrice('SOL') / stableReferencePrice('USDC');
+    expect(ray.networkFee).toBeCloseTo((DEFAULT_BASE_FEE_LAMPORTS / LAMPORTS_PER_SOL) * solInUsdc, 12);
+    expect(ray.effectivePrice).toBeCloseTo(raw.effectivePrice - (ray.networkFee as number), 12);
+    expect(ray.price).toBe(raw.price);
+  });
+
+  test('on small orders the priority fee on compute-heavy venues changes the best venue', async () => {
+    const small = makeOrder({ amount: 0.001 });
+    expect((await router().route(small)).chosen.dex).toBe('raydium');
+
+    // Raydium quotes ~1% better, but burns 30k more compute units than Phoenix at 1 lamport each.
+    const decision = await router().route({ ...small, priorityFeeMicroLamports: 1_000_000 });
+    expect(decision.chosen.dex).toBe('phoenix');
+    const fees = Object.fromEntries(decision.quotes.map((q) => [q.dex, q.networkFee]));
+    expect(fees.raydium).toBeGreaterThan(fees.phoenix as number);
+
+    const large = await router().route({ ...makeOrder({ amount: 100 }), priorityFeeMicroLamports: 1_000_000 });
+    expect(large.chosen.dex).toBe('raydium');
+  });
+
+  test('a priority fee shortens the swap inclusion latency', async () => {
+    const slept: number[] = [];
+    const adapter = new MockDexAdapter({
+      profile: MOCK_DEX_PROFILES[0],
+      random: () => 0.5,
+      sleepFn: async (ms) => {
+        slept.push(ms);
+      }
+    });
+    await adapter.executeSwap(makeOrder(), 1);
+    await adapter.executeSwap({ ...makeOrder(), priorityFeeMicroLamports: 100_000 }, 1);
+    // 2000ms + half the 1000ms jitter; at the half-speedup price both shrink by 37.5%.
+    expect(slept).toEqual([2_500, 1_562]);
+    expect(inclusionLatencyFactor(0)).toBe(1);
+    expect(inclusionLatencyFactor(1e12)).toBeCloseTo(0.25);
+  });
+});
+
+describe('Constant-product venues', () => {
+  const profile = {
+    name: 'raydium',
+    feeRate: 0.003,
+    quoteLatencyMs: 0,
+    swapLatencyMs: 0,
+    swapJitterMs: 0,
+    defaultDepth: 1_000
+  };
+
+  function makeAdapter(): ConstantProductDexAdapter {
+    return new ConstantProductDexAdapter({
+      profile,
+      pools: [{ tokenA: 'SOL', tokenB: 'USDC', reserveA: 1_000, reserveB: 2_000 }],
+      sleepFn: async () => {}
+    });
+  }
+
+  test('quotes come from the reserves with the fee applied to the input', async () => {
+    const adapter = makeAdapter();
+    const quote = await adapter.getQuote({ tokenIn: 'SOL', tokenOut: 'USDC', amount: 10 });
+
+    const amountOut = (2_000 * 10 * 0.997) / (1_000 + 10 * 0.997);
+    expect(quote.effectivePrice).toBeCloseTo(amountOut / 10);
+    expect(quote.effectivePrice).toBeCloseTo(quote.price * (1 - quote.feeRate));
+    // The reverse direction reads the same pool.
+    const reverse = await adapter.getQuote({ tokenIn: 'USDC', tokenOut: 'SOL', amount: 10 });
+    expect(reverse.effectivePrice).toBeCloseTo((1_000 * 10 * 0.997) / (2_000 + 10 * 0.997) / 10);
+  });
+
+  test('each swap moves the reserves, so repeating an order fills at a worse price', async () => {
+    const adapter = makeAdapter();
+    const order = makeOrder({ amount: 50 });
+
+    const first = await adapter.executeSwap(order, 0);
+    expect(adapter.getReserves('SOL', 'USDC')).toEqual([1_050, 2_000 - first.amountOut]);
+    const second = await adapter.executeSwap(order, 0);
+    expect(second.amountOut).toBeLessThan(first.amountOut);
+    expect(second.executedPrice).toBeLessThan(first.executedPrice);
+    // x·y never shrinks: the fee stays in the pool.
+    const [x, y] = adapter.getReserves('SOL', 'USDC');
+    expect(x * y).toBeGreaterThanOrEqual(1_000 * 2_000);
+  });
+
+  test('exact_out quotes and swaps solve for the input', async () => {
+    const adapter = makeAdapter();
+    const request = { tokenIn: 'SOL', tokenOut: 'USDC', amount: 100, swapMode: 'exact_out' as const };
+    const quote = await adapter.getQuote(request);
+    const amountIn = (1_000 * 100) / ((2_000 - 100) * 0.997);
+    expect(100 / quote.effectivePrice).toBeCloseTo(amountIn);
+
+    const swap = await adapter.executeSwap({ ...makeOrder({ amount: 100 }), swapMode: 'exact_out' }, 0);
+    expect(swap.amountOut).toBe(100);
+    expect(swap.amountIn).toBeCloseTo(amountIn);
+
+    const drain = { ...request, amount: 5_000 };
+    expect((await adapter.getQuote(drain)).effectivePrice).toBe(0);
+    await expect(adapter.executeSwap({ ...makeOrder({ amount: 5_000 }), swapMode: 'exact_out' }, 0)).rejects.toThrow(
+      InsufficientLiquidityError
+    );
+  });
+
+  test('unconfigured pairs are seeded at the reference price', () => {
+    const adapter = makeAdapter();
+    const [reserveIn, reserveOut] = adapter.getReserves('JUP', 'USDT');
+    expect(reserveOut / reserveIn).toBeCloseTo(stableReferencePrice('JUP') / stableReferencePrice('USDT'));
+  });
+
+  test('router splits across pools and its own fills make the next quote worse', async () => {
+    const registry = createConstantProductDexRegistry({ sleepFn: async () => {}, random: () => 0 });
+    const router = new MockDexRouter({ logger: noopLogger(), registry });
+    const order = makeOrder({ amount: 20_000 });
+
+    const before = await router.route(order);
+    expect(before.split?.legs).toHaveLength(2);
+    await router.executeSwap(before.chosen.dex, order, before.chosen.price);
+
+    const after = await router.route(order);
+    const beforeQuote = before.quotes.find((q) => q.dex === before.chosen.dex) as DexQuote;
+    const afterQuote = after.quotes.find((q) => q.dex === before.chosen.dex) as DexQuote;
+    expect(afterQuote.effectivePrice).toBeLessThan(beforeQuote.effectivePrice);
+  });
+});
@@ -0,0 +1,126 @@
+import { mkdtempSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { MockDexRouter } from '../dex/mockDexRouter';
+import { createConstantProductDexRegistry } from '../dex/constantProductAdapter';
+import { SimulatedVenueError } from '../dex/mockDexAdapter';
+import {
+  applyScenario,
+  createSeededRandom,
+  loadScenarioFromEnv,
+  parseScenario,
+  ScenarioError,
+  scenarioRegistryOptions,
+  type SimulationScenario
+} from '../dex/scenario';
+import { TokenGraph } from '../dex/tokenGraph';
+import type { Logger, Order } from '../types';
+
+function noopLogger(): Logger {
+  return { info: () => {}, warn: () => {}, error: () => {} };
+}
+
+function makeOrder(i: number): Order {
+  return {
+    orderId: `order-${i}`,
+    type: 'market',
+    tokenIn: 'SOL',
+    tokenOut: 'USDC',
+    amount: 10 + i,
+    slippageBps: 50,
+    createdAtMs: 1
+  };
+}
+
+async function routeMany(scenario: SimulationScenario): Promise<Array<{ dex: string; effectivePrice: number }>> {
+  const router = new MockDexRouter({
+    logger: noopLogger(),
+    sleepFn: async () => {},
+    graph: new TokenGraph([['SOL', 'USDC']]),
+    scenario
+  });
+  const out: Array<{ dex: string; effectivePrice: number }> = [];
+  for (let i = 0; i < 20; i++) {
+    const { chosen } = await router.route(makeOrder(i));
+    out.push({ dex: chosen.dex, effectivePrice: chosen.effectivePrice });
+  }
+  return out;
+}
+
+describe('Simulation scenarios', () => {
+  test('seeded random repeats its sequence for the same seed', () => {
+    const a = createSeededRandom(42);
+    const b = createSeededRandom(42);
+    const c = createSeededRandom(43);
+    const seqA = Array.from({ length: 5 }, a);
+    expect(Array.from({ length: 5 }, b)).toEqual(seqA);
+    expect(Array.from({ length: 5 }, c)).not.toEqual(seqA);
+    for (const v of seqA) expect(v >= 0 && v < 1).toBe(true);
+  });
+
+  test('the same scenario routes the same orders identically run for run', async () => {
+    const scenario = parseScenario({ seed: 7 });
+    const first = await routeMany(scenario);
+    expect(await routeMany(scenario)).toEqual(first);
+    expect(await routeMany(parseScenario({ seed: 8 }))).not.toEqual(first);
+  });
+
+  test('price bias steers routing toward the favoured venue', async () => {
+    const decisions = await routeMany(parseScenario({ seed: 1, venues: { phoenix: { priceBias: 1.1 } } }));
+    expect(decisions.every((d) => d.dex === 'phoenix')).toBe(true);
+  });
+
+  test('latency ranges and failure rates override the venue profiles', async () => {
+    const profiles = applyScenario(
+      parseScenario({
+        seed: 1,
+        venues: { orca: { quoteLatencyMs: { minMs: 50, maxMs: 80 }, swapLatencyMs: { minMs: 400, maxMs: 400 } } }
+      })
+    );
+    const orca = profiles.find((p) => p.name === 'orca');
+    expect(orca).toMatchObject({ quoteLatencyMs: 50, quoteJitterMs: 30, swapLatencyMs: 400, swapJitterMs: 0 });
+    expect(profiles.find((p) => p.name === 'raydium')).toMatchObject({ quoteLatencyMs: 200, swapLatencyMs: 2000 });
+
+    const slept: number[] = [];
+    const scenario = parseScenario({
+      seed: 3,
+      venues: { raydium: { swapFailureRate: 1, swapLatencyMs: { minMs: 10, maxMs: 10 } } }
+    });
+    const registry = createConstantProductDexRegistry({
+      ...scenarioRegistryOptions(scenario),
+      sleepFn: async (ms) => {
+        slept.push(ms);
+      }
+    });
+    const order = makeOrder(0);
+    await expect(registry.get('raydium').executeSwap(order, 1)).rejects.toBeInstanceOf(SimulatedVenueError);
+    expect(slept).toEqual([10]);
+    await expect(registry.get('meteora').executeSwap(order, 1)).resolves.toMatchObject({ dex: 'meteora' });
+  });
+
+  test('invalid scenarios are rejected with the offending field', () => {
+    expect(() => parseScenario({ venues: {} })).toThrow('seed must be an integer');
+    expect(() => parseScenario({ seed: 1, venues: { orca: { swapFailureRate: 2 } } })).toThrow(
+      'venues.orca.swapFailureRate must be a number between 0 and 1'
+    );
+    expect(() => parseScenario({ seed: 1, venues: { orca: { quoteLatencyMs: { minMs: 5, maxMs: 1 } } } })).toThrow(
+      ScenarioError
+    );
+    expect(() => applyScenario(parseScenario({ seed: 1, venues: { serum: {} } }))).toThrow(
+      'Scenario names unknown venue: serum'
+    );
+  });
+
+  test('loads the scenario file named by MOCK_DEX_SCENARIO', () => {
+    const dir = mkdtempSync(join(tmpdir(), 'scenario-'));
+    const path = join(dir, 'scenario.json');
+    writeFileSync(path, JSON.stringify({ seed: 99, venues: { meteora: { priceBias: 0.95 } } }));
+
+    expect(loadScenarioFromEnv({})).toBeUndefined();
+    expect(loadScenarioFromEnv({ MOCK_DEX_SCENARIO: path })).toEqual({
+      seed: 99,
+      venues: { meteora: expect.objectContaining({ priceBias: 0.95 }) }
+    });
+    expect(() => loadScenarioFromEnv({ MOCK_DEX_SCENARIO: join(dir, 'missing.json') })).toThrow(ScenarioError);
+  });
+});
@@ -0,0 +1,207 @@
+import { buildServer } from '../server';
+import { createHermeticPgMemDb } from '../db';
+import {
+  InMemoryActiveOrderStore,
+  InMemoryEventBus,
+  InMemorySocketMappingStore
+} from '../services/orderService';
+import type { ExecuteOrderResponse, Logger, QueueClient } from '../types';
+import { MockDexRouter } from '../dex/mockDexRouter';
+import { MockLaunchFeed } from '../dex/mockLaunchFeed';
+import { executeOrderJob } from '../queue/orderWorker';
+import { SniperWatcher } from '../queue/sniperWatcher';
+import { SNIPER_MAX_AMOUNT } from '../api/orders';
+
+function noopLogger(): Logger {
+  return { info: () => {}, warn: () => {}, error: () => {} };
+}
+
+class FakeQueueClient implements QueueClient {
+  public readonly enqueued: string[] = [];
+  public async enqueue(payload: { orderId: string }): Promise<void> {
+    this.enqueued.push(payload.orderId);
+  }
+  public async enqueueBulk(payloads: Array<{ orderId: string }>): Promise<void> {
+    this.enqueued.push(...payloads.map((p) => p.orderId));
+  }
+  public async remove(orderId: string): Promise<boolean> {
+    const idx = this.enqueued.indexOf(orderId);
+    if (idx === -1) return false;
+    this.enqueued.splice(idx, 1);
+    return true;
+  }
+  public async close(): Promise<void> {}
+}
+
+async function startHermeticServer() {
+  const logger = noopLogger();
+  const db = createHermeticPgMemDb();
+  const activeStore = new InMemoryActiveOrderStore();
+  const socketMapping = new InMemorySocketMappingStore();
+  const eventBus = new InMemoryEventBus();
+  const queue = new FakeQueueClient();
+  const launchFeed = new MockLaunchFeed({ logger });
+
+  const app = await buildServer({
+    logger,
+    db,
+    queue,
+    activeStore,
+    socketMapping,
+    eventBus,
+    activeOrderTtlSeconds: 3600,
+    startWorker: false,
+    connectionForBullMq: {},
+    launchFeed
+  });
+
+  const sniperWatcher = new SniperWatcher({
+    activeStore,
+    eventBus,
+    db,
+    queue,
+    launchFeed,
+    logger,
+    activeOrderTtlSeconds: 3600
+  });
+  sniperWatcher.start();
+  app.addHook('onClose', async () => sniperWatcher.stop());
+
+  const address = await app.listen({ port: 0, host: '127.0.0.1' });
+  const port = Number(new URL(address).port);
+  const baseUrl = `http://127.0.0.1:${port}`;
+  return { app, baseUrl, sniperWatcher, deps: { logger, db, activeStore, eventBus, queue } };
+}
+
+async function post(url: string, body: unknown): Promise<Response> {
+  return await fetch(url, {
+    method: 'POST',
+    headers: { 'content-type': 'application/json' },
+    body: JSON.stringify(body)
+  });
+}
+
+describe('Sniper orders (hermetic)', () => {
+  test('launch event fires only snipers armed on that token, which then execute through the worker', async () => {
+    const { app, baseUrl, deps } = await startHermeticServer();
+    try {
+      const sniper = (await (
+        await post(`${baseUrl}/api/orders/execute`, {
+          type: 'sniper',
+          tokenIn: 'SOL',
+          tokenOut: 'NEWCOIN',
+          amount: 5,
+          slippageBps: 500
+        })
+      ).json()) as ExecuteOrderResponse;
+      const other = (await (
+        await post(`${baseUrl}/api/orders/execute`, {
+          type: 'sniper',
+          tokenIn: 'SOL',
+          tokenOut: 'OTHERCOIN',
+          amount: 5,
+          slippageBps: 500
+        })
+      ).json()) as ExecuteOrderResponse;
+      expect(deps.queue.enqueued).toEqual([]);
+
+      const launchRes = await post(`${baseUrl}/api/admin/launches`, { token: 'NEWCOIN', poolId: 'pool-1' });
+      expect(launchRes.status).toBe(200);
+      expect(await launchRes.json()).toEqual(expect.objectContaining({ token: 'NEWCOIN', poolId: 'pool-1' }));
+
+      expect(deps.queue.enqueued).toEqual([sniper.orderId]);
+      expect(await deps.activeStore.listArmedOrders()).toEqual([other.orderId]);
+
+      const router = new MockDexRouter({ logger: deps.logger, random: () => 0.5, sleepFn: async () => {} });
+      await executeOrderJob(
+        {
+          connection: {},
+          activeStore: deps.activeStore,
+          eventBus: deps.eventBus,
+          db: deps.db,
+          router,
+          logger: deps.logger,
+          activeOrderTtlSeconds: 3600,
+          sleeper: { sleep: async () => {} }
+        },
+        sniper.orderId
+      );
+
+      const events = await deps.activeStore.listEvents(sniper.orderId);
+      expect(events.map((e) => e.status)).toEqual([
+        'pending',
+        'armed',
+        'triggered',
+        'routing',
+        'building',
+        'submitted',
+        'confirmed'
+      ]);
+      expect(events[2]).toEqual(expect.objectContaining({ launchToken: 'NEWCOIN', poolId: 'pool-1' }));
+      expect((await deps.db.getOrder(sniper.orderId))?.status).toBe('confirmed');
+    } finally {
+      await app.close();
+    }
+  });
+
+  test('armed sniper orders are kept alive between launches, and one whose active entry is gone expires', async () => {
+    const { app, baseUrl, sniperWatcher, deps } = await startHermeticServer();
+    try {
+      const waiting = (await (
+        await post(`${baseUrl}/api/orders/execute`, {
+          type: 'sniper',
+          tokenIn: 'SOL',
+          tokenOut: 'NEWCOIN',
+          amount: 5,
+          slippageBps: 500
+        })
+      ).json()) as ExecuteOrderResponse;
+      const dropped = (await (
+        await post(`${baseUrl}/api/orders/execute`, {
+          type: 'sniper',
+          tokenIn: 'SOL',
+          tokenOut: 'NEWCOIN',
+          amount: 5,
+          slippageBps: 500
+        })
+      ).json()) as ExecuteOrderResponse;
+      const put = jest.spyOn(deps.activeStore, 'putActiveOrder');
+      // Simulates the dropped order's active-store key lapsing while it was armed.
+      const getActiveOrder = deps.activeStore.getActiveOrder.bind(deps.activeStore);
+      jest
+        .spyOn(deps.activeStore, 'getActiveOrder')
+        .mockImplementation(async (orderId) => (orderId === dropped.orderId ? null : await getActiveOrder(orderId)));
+
+      await sniperWatcher.refreshOnce();
+
+      expect(put).toHaveBeenCalledWith(expect.objectContaining({ orderId: waiting.orderId }), 3600);
+      expect(await deps.activeStore.listArmedOrders()).toEqual([waiting.orderId]);
+      const statuses = (await deps.activeStore.listEvents(dropped.orderId)).map((e) => e.status);
+      expect(statuses).toEqual(['pending', 'armed', 'expired']);
+      expect((await deps.db.getOrder(dropped.orderId))?.status).toBe('expired');
+
+      const launchRes = await post(`${baseUrl}/api/admin/launches`, { token: 'NEWCOIN', poolId: 'pool-1' });
+      expect(launchRes.status).toBe(200);
+      expect(deps.queue.enqueued).toEqual([waiting.orderId]);
+    } finally {
+      await app.close();
+    }
+  });
+
+  test('sniper orders above the sniper amount cap are rejected', async () => {
+    const { app, baseUrl } = await startHermeticServer();
+    try {
+      const res = await post(`${baseUrl}/api/orders/execute`, {
+        type: 'sniper',
+        tokenIn: 'SOL',
+        tokenOut: 'NEWCOIN',
+        amount: SNIPER_MAX_AMOUNT + 1,
+        slippageBps: 500
+      });
+      expect(res.status).toBe(400);
+      expect(((await res.json()) as { error: string }).error).toMatch(/sniper amount/);
+    } finally {
+      await app.close();
+    }
+  });
+});
@@ -0,0 +1,146 @@
+import type { DexQuote, Logger, Order, QueueClient } from '../types';
+import { InMemoryActiveOrderStore, InMemoryEventBus } from '../services/orderService';
+import { createHermeticPgMemDb } from '../db';
+import { MockDexRouter } from '../dex/mockDexRouter';
+import { executeOrderJob } from '../queue/orderWorker';
+import { isTriggerHit, TriggerWatcher } from '../queue/triggerWatcher';
+
+function noopLogger(): Logger {
+  return { info: () => {}, warn: () => {}, error: () => {} };
+}
+
+class FakeQueueClient implements QueueClient {
+  public readonly enqueued: string[] = [];
+  public async enqueue(payload: { orderId: string }): Promise<void> {
+    this.enqueued.push(payload.orderId);
+  }
+  public async enqueueBulk(payloads: Array<{ orderId: string }>): Promise<void> {
+    this.enqueued.push(...payloads.map((p) => p.orderId));
+  }
+  public async remove(orderId: string): Promise<boolean> {
+    const idx = this.enqueued.indexOf(orderId);
+    if (idx === -1) return false;
+    this.enqueued.splice(idx, 1);
+    return true;
+  }
+  public async close(): Promise<void> {}
+}
+
+function makeTriggerOrder(overrides: Partial<Order> = {}): Order {
+  return {
+    orderId: overrides.orderId ?? 'order-trigger',
+    type: overrides.type ?? 'stop_loss',
+    tokenIn: 'SOL',
+    tokenOut: 'USDC',
+    amount: 10,
+    slippageBps: 50,
+    triggerPrice: overrides.triggerPrice ?? 1,
+    createdAtMs: 1
+  };
+}
+
+function quoteAt(effectivePrice: number): DexQuote {
+  return { dex: 'raydium', amount: 10, price: effectivePrice, feeRate: 0, effectivePrice };
+}
+
+async function setup(order: Order) {
+  const logger = noopLogger();
+  const db = createHermeticPgMemDb();
+  await db.initSchema();
+  const activeStore = new InMemoryActiveOrderStore();
+  const eventBus = new InMemoryEventBus();
+  const queue = new FakeQueueClient();
+  const router = new MockDexRouter({ logger, random: () => 0.5, sleepFn: async () => {} });
+
+  await activeStore.putActiveOrder(order, 3600);
+  await db.insertOrder(order);
+  await activeStore.armOrder(order.orderId);
+
+  const watcher = new TriggerWatcher({ activeStore, eventBus, db, queue, router, logger, activeOrderTtlSeconds: 3600 });
+  return { logger, db, activeStore, eventBus, queue, router, watcher };
+}
+
+describe('Stop-loss / take-profit triggers (hermetic)', () => {
+  test('isTriggerHit: stop_loss fires at or below, take_profit at or above the trigger price', () => {
+    const stop = makeTriggerOrder({ type: 'stop_loss', triggerPrice: 1 });
+    const take = makeTriggerOrder({ type: 'take_profit', triggerPrice: 1 });
+
+    expect(isTriggerHit(stop, quoteAt(0.99))).toBe(true);
+    expect(isTriggerHit(stop, quoteAt(1))).toBe(true);
+    expect(isTriggerHit(stop, quoteAt(1.01))).toBe(false);
+    expect(isTriggerHit(take, quoteAt(1.01))).toBe(true);
+    expect(isTriggerHit(take, quoteAt(0.99))).toBe(false);
+  });
+
+  test('armed order stays armed and is not enqueued while its trigger is not hit', async () => {
+    const order = makeTriggerOrder({ type: 'take_profit', triggerPrice: 100 });
+    const { activeStore, queue, watcher } = await setup(order);
+
+    await watcher.pollOnce();
+
+    expect(queue.enqueued).toEqual([]);
+    expect(await activeStore.listArmedOrders()).toEqual([order.orderId]);
+    expect(await activeStore.listEvents(order.orderId)).toEqual([]);
+  });
+
+  test('each poll refreshes the active TTL of an order still waiting on its trigger', async () => {
+    const order = makeTriggerOrder({ type: 'take_profit', triggerPrice: 100 });
+    const { activeStore, watcher } = await setup(order);
+    const put = jest.spyOn(activeStore, 'putActiveOrder');
+
+    await watcher.pollOnce();
+    await watcher.pollOnce();
+
+    expect(put).toHaveBeenCalledTimes(2);
+    expect(put).toHaveBeenLastCalledWith(order, 3600);
+  });
+
+  test('an armed order whose active entry is gone is expired rather than silently disarmed', async () => {
+    const order = makeTriggerOrder({ type: 'stop_loss', triggerPrice: 0.01 });
+    const { db, activeStore, queue, watcher } = await setup(order);
+    // Simulates the active-store key lapsing while the order was armed.
+    jest.spyOn(activeStore, 'getActiveOrder').mockResolvedValue(null);
+
+    await watcher.pollOnce();
+
+    expect(queue.enqueued).toEqual([]);
+    expect(await activeStore.listArmedOrders()).toEqual([]);
+    const statuses = (await activeStore.listEvents(order.orderId)).map((e) => e.status);
+    expect(statuses).toEqual(['expired']);
+    const stored = await db.getOrder(order.orderId);
+    expect(stored?.status).toBe('expired');
+    expect(stored?.failureReason).toBe('active order expired while armed');
+  });
+
+  test('hit trigger disarms, emits triggered, enqueues once and then executes as a market order', async () => {
+    const order = makeTriggerOrder({ type: 'stop_loss', triggerPrice: 100 });
+    const { logger, db, activeStore, eventBus, queue, router, watcher } = await setup(order);
+
+    await watcher.pollOnce();
+    await watcher.pollOnce();
+
+    expect(queue.enqueued).toEqual([order.orderId]);
+    expect(await activeStore.listArmedOrders()).toEqual([]);
+
+    await executeOrderJob(
+      {
+        connection: {},
+        activeStore,
+        eventBus,
+        db,
+        router,
+        logger,
+        activeOrderTtlSeconds: 3600,
+        sleeper: { sleep: async () => {} }
+      },
+      order.orderId
+    );
+
+    const statuses = (await activeStore.listEvents(order.orderId)).map((e) => e.status);
+    expect(statuses).toEqual(['triggered', 'routing', 'building', 'submitted', 'confirmed']);
+    const stored = await db.getOrder(order.orderId);
+    expect(stored?.status).toBe('confirmed');
+    expect(stored?.type).toBe('stop_loss');
+    expect(stored?.triggerPrice).toBe(100);
+  });
+});
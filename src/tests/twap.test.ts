@@ -0,0 +1,231 @@
+import type { Logger, Order, OrderEvent, QueueClient } from '../types';
+import { InMemoryActiveOrderStore, InMemoryEventBus } from '../services/orderService';
+import { createHermeticPgMemDb } from '../db';
+import { MockDexRouter } from '../dex/mockDexRouter';
+import {
+  computeTwapProgress,
+  executeOrderJob,
+  processOrderOnce,
+  settleTwapParent,
+  twapChildOrderId
+} from '../queue/orderWorker';
+
+function noopLogger(): Logger {
+  return { info: () => {}, warn: () => {}, error: () => {} };
+}
+
+class FakeQueueClient implements QueueClient {
+  public readonly enqueued: { orderId: string; delayMs: number }[] = [];
+  public async enqueue(payload: { orderId: string }, opts: { delayMs?: number } = {}): Promise<void> {
+    this.enqueued.push({ orderId: payload.orderId, delayMs: opts.delayMs ?? 0 });
+  }
+  public async enqueueBulk(payloads: Array<{ orderId: string }>): Promise<void> {
+    this.enqueued.push(...payloads.map((p) => ({ orderId: p.orderId, delayMs: 0 })));
+  }
+  public async remove(): Promise<boolean> {
+    return false;
+  }
+  public async close(): Promise<void> {}
+}
+
+function makeTwapOrder(): Order {
+  return {
+    orderId: 'order-twap',
+    type: 'twap',
+    tokenIn: 'SOL',
+    tokenOut: 'USDC',
+    amount: 1000,
+    slippageBps: 50,
+    twapDurationMs: 60_000,
+    twapSlices: 4,
+    createdAtMs: 1
+  };
+}
+
+async function setup() {
+  const logger = noopLogger();
+  const db = createHermeticPgMemDb();
+  await db.initSchema();
+  const activeStore = new InMemoryActiveOrderStore();
+  const eventBus = new InMemoryEventBus();
+  const queue = new FakeQueueClient();
+  const router = new MockDexRouter({ logger, random: () => 0.5, sleepFn: async () => {} });
+  const deps = {
+    connection: {},
+    activeStore,
+    eventBus,
+    db,
+    router,
+    logger,
+    activeOrderTtlSeconds: 3600,
+    sleeper: { sleep: async () => {} },
+    queue
+  };
+  return { deps, db, activeStore, eventBus, queue };
+}
+
+describe('TWAP orders (hermetic)', () => {
+  test('parent job creates linked child orders enqueued evenly over the duration', async () => {
+    const { deps, db, activeStore, queue } = await setup();
+    const parent = makeTwapOrder();
+    await activeStore.putActiveOrder(parent, 3600);
+    await db.insertOrder(parent);
+
+    await executeOrderJob(deps, parent.orderId);
+    // Re-running the parent job must not schedule the slices twice.
+    await executeOrderJob(deps, parent.orderId);
+
+    expect(queue.enqueued).toEqual(
+      [0, 1, 2, 3].map((i) => ({ orderId: twapChildOrderId(parent.orderId, i), delayMs: i * 15_000 }))
+    );
+
+    const children = await db.listChildOrders(parent.orderId);
+    expect(children).toHaveLength(4);
+    expect(children.every((c) => c.parentOrderId === parent.orderId && c.type === 'market')).toBe(true);
+    expect(children.reduce((sum, c) => sum + c.amount, 0)).toBeCloseTo(1000);
+
+    const events = await activeStore.listEvents(parent.orderId);
+    expect(events).toEqual([expect.objectContaining({ status: 'progress', slicesRemaining: 4, filledAmount: 0 })]);
+  });
+
+  test('parent stream reports aggregate progress and completes at the volume-weighted price', async () => {
+    const { deps, db, activeStore, eventBus, queue } = await setup();
+    const parent = makeTwapOrder();
+    await activeStore.putActiveOrder(parent, 3600);
+    await db.insertOrder(parent);
+
+    const parentEvents: OrderEvent[] = [];
+    await eventBus.subscribe(parent.orderId, (ev) => parentEvents.push(ev));
+
+    await executeOrderJob(deps, parent.orderId);
+    for (const job of queue.enqueued) {
+      await executeOrderJob(deps, job.orderId);
+    }
+
+    expect(parentEvents.map((e) => (e.status === 'progress' ? `progress:${e.slicesRemaining}` : e.status))).toEqual([
+      'progress:4',
+      'progress:3',
+      'progress:2',
+      'progress:1',
+      'progress:0',
+      'completed'
+    ]);
+
+    const children = await db.listChildOrders(parent.orderId);
+    const expectedVwap =
+      children.reduce((sum, c) => sum + c.amount * (c.executedPrice as number), 0) /
+      children.reduce((sum, c) => sum + c.amount, 0);
+
+    const completed = parentEvents[parentEvents.length - 1];
+    expect(completed).toEqual(
+      expect.objectContaining({ status: 'completed', filledAmount: 1000, slicesFilled: 4, slicesRemaining: 0 })
+    );
+    const stored = await db.getOrder(parent.orderId);
+    expect(stored?.status).toBe('completed');
+    expect(stored?.executedPrice).toBeCloseTo(expectedVwap);
+  });
+
+  test('each slice stays active until its delayed job is due', async () => {
+    const { deps, db, activeStore } = await setup();
+    const parent = makeTwapOrder();
+    await activeStore.putActiveOrder(parent, 3600);
+    await db.insertOrder(parent);
+    const put = jest.spyOn(activeStore, 'putActiveOrder');
+
+    await executeOrderJob(deps, parent.orderId);
+
+    expect(put.mock.calls.map(([order, ttlSeconds]) => [order.orderId, ttlSeconds])).toEqual(
+      [0, 1, 2, 3].map((i) => [twapChildOrderId(parent.orderId, i), 3600 + i * 15])
+    );
+  });
+
+  test('a slice whose active entry is gone fails and the parent still completes', async () => {
+    const { deps, db, activeStore, queue } = await setup();
+    const parent = makeTwapOrder();
+    await activeStore.putActiveOrder(parent, 3600);
+    await db.insertOrder(parent);
+
+    await executeOrderJob(deps, parent.orderId);
+    const [first, ...rest] = queue.enqueued;
+    await activeStore.clear(first.orderId);
+
+    await expect(executeOrderJob(deps, first.orderId)).rejects.toThrow('Active order not found');
+    for (const job of rest) {
+      await executeOrderJob(deps, job.orderId);
+    }
+
+    const missing = await db.getOrder(first.orderId);
+    expect(missing?.status).toBe('failed');
+    expect(missing?.failureReason).toBe(`Active order not found: ${first.orderId}`);
+    expect((await activeStore.listEvents(first.orderId)).map((e) => e.status)).toEqual(['failed']);
+
+    const events = await activeStore.listEvents(parent.orderId);
+    expect(events[events.length - 1]).toEqual(
+      expect.objectContaining({ status: 'completed', slicesFilled: 3, slicesFailed: 1, slicesRemaining: 0 })
+    );
+    expect((await db.getOrder(parent.orderId))?.status).toBe('completed');
+  });
+
+  test('slices settling at the same time complete the parent once', async () => {
+    const { deps, db, activeStore, queue } = await setup();
+    const parent = makeTwapOrder();
+    await activeStore.putActiveOrder(parent, 3600);
+    await db.insertOrder(parent);
+
+    await executeOrderJob(deps, parent.orderId);
+    for (const job of queue.enqueued) {
+      const child = await activeStore.getActiveOrder(job.orderId);
+      await processOrderOnce(deps, child as Order);
+    }
+    await Promise.all([settleTwapParent(deps, parent.orderId), settleTwapParent(deps, parent.orderId)]);
+
+    const statuses = (await activeStore.listEvents(parent.orderId)).map((e) => e.status);
+    expect(statuses.filter((s) => s === 'completed')).toHaveLength(1);
+    expect(statuses[statuses.length - 1]).toBe('completed');
+  });
+
+  test('computeTwapProgress counts failed slices and ignores them in the average', () => {
+    const base = {
+      type: 'market' as const,
+      tokenIn: 'SOL',
+      tokenOut: 'USDC',
+      slippageBps: 50,
+      dexChosen: null,
+      txHash: null,
+      failureReason: null,
+      limitPrice: null,
+      expiresAtMs: null,
+      triggerPrice: null,
+      twapDurationMs: null,
+      twapSlices: null,
+      parentOrderId: 'p',
+      quoteId: null,
+      quotedPrice: null,
+      swapMode: 'exact_in' as const,
+      amountIn: null,
+      amountOut: null,
+      timeInForce: 'gtc' as const,
+      deadlineMs: null,
+      excludeDexes: [],
+      pinnedDex: null,
+      routingObjective: 'best_price' as const,
+      priorityFeeMicroLamports: null,
+      routingReasons: null,
+      createdAtMs: 1,
+      updatedAtMs: 1
+    };
+    const progress = computeTwapProgress([
+      { ...base, orderId: 'a', amount: 100, status: 'confirmed', executedPrice: 1 },
+      { ...base, orderId: 'b', amount: 300, status: 'confirmed', executedPrice: 2 },
+      { ...base, orderId: 'c', amount: 100, status: 'failed', executedPrice: null },
+      { ...base, orderId: 'd', amount: 100, status: 'pending', executedPrice: null }
+    ]);
+    expect(progress).toEqual({
+      filledAmount: 400,
+      averagePrice: 1.75,
+      slicesFilled: 2,
+      slicesFailed: 1,
+      slicesRemaining: 1
+    });
+  });
+});
@@ -0,0 +1,113 @@
+import { MockDexRouter } from '../dex/mockDexRouter';
+import { createMockDexRegistry, MOCK_DEX_PROFILES } from '../dex/mockDexAdapter';
+import { TokenGraph } from '../dex/tokenGraph';
+import { CircuitOpenError, VenueHealth } from '../dex/venueHealth';
+import type { DexName, Logger, Order } from '../types';
+
+type LogEntry = { msg: string; meta?: Record<string, unknown> };
+
+function recordingLogger(): Logger & { entries: LogEntry[] } {
+  const entries: LogEntry[] = [];
+  const log = (msg: string, meta?: Record<string, unknown>) => {
+    entries.push({ msg, meta });
+  };
+  return { entries, info: log, warn: log, error: log };
+}
+
+function makeOrder(overrides: Partial<Order> = {}): Order {
+  return {
+    orderId: overrides.orderId ?? 'order-1',
+    type: 'market',
+    tokenIn: 'SOL',
+    tokenOut: 'USDC',
+    amount: overrides.amount ?? 100,
+    slippageBps: 50,
+    createdAtMs: 1
+  };
+}
+
+/**
+ * Direct-only router whose fault injector sleeps for real, so latency spikes hang until the quote timeout.
+ */
+function healthRouter(opts: { venues?: DexName[]; quoteTimeoutMs?: number; now?: () => number } = {}) {
+  const logger = recordingLogger();
+  const profiles = MOCK_DEX_PROFILES.filter((p) => !opts.venues || opts.venues.includes(p.name));
+  const registry = createMockDexRegistry({ profiles, random: () => 0.5, sleepFn: async () => {} });
+  const router = new MockDexRouter({
+    logger,
+    registry,
+    graph: new TokenGraph([['SOL', 'USDC']]),
+    sleepFn: (ms) => new Promise((resolve) => setTimeout(resolve, ms)),
+    venueHealth: new VenueHealth({ logger, quoteTimeoutMs: opts.quoteTimeoutMs, cooldownMs: 5_000, now: opts.now })
+  });
+  return { router, logger };
+}
+
+const raydium = (router: MockDexRouter) => router.venueHealth.stats(['raydium'])[0];
+
+describe('Venue health', () => {
+  test('a venue that hangs is timed out and the order routes over the quotes that arrived', async () => {
+    const { router, logger } = healthRouter({ quoteTimeoutMs: 20 });
+    router.faults.inject({ dex: 'raydium', kind: 'latency_spike', delayMs: 200, remaining: 1 });
+
+    const startedAtMs = Date.now();
+    const decision = await router.route(makeOrder());
+    expect(Date.now() - startedAtMs).toBeLessThan(200);
+    expect(decision.quotes.map((q) => q.dex)).toEqual(['meteora', 'orca', 'phoenix']);
+    expect(decision.reasons?.find((r) => r.dex === 'raydium')).toEqual({
+      dex: 'raydium',
+      chosen: false,
+      reason: 'quote failed: Quote from raydium timed out after 20ms'
+    });
+    expect(logger.entries.find((e) => e.msg === 'venue.quote_failed')?.meta?.dex).toBe('raydium');
+    expect(raydium(router)).toEqual(
+      expect.objectContaining({ state: 'closed', samples: 1, errors: 1, timeouts: 1, lastError: expect.any(String) })
+    );
+  });
+
+  test('repeated failures open the circuit, and a probe after the cooldown closes it', async () => {
+    let clock = 1_000;
+    const { router, logger } = healthRouter({ now: () => clock });
+    router.faults.inject({ dex: 'raydium', kind: 'quote_timeout', timeoutMs: 10, remaining: 5 });
+    const getQuote = jest.spyOn(router.registry.get('raydium'), 'getQuote');
+
+    for (let i = 0; i < 5; i++) await router.route(makeOrder());
+    expect(raydium(router)).toEqual(
+      expect.objectContaining({ state: 'open', errors: 5, errorRate: 1, openUntilMs: 6_000 })
+    );
+    expect(logger.entries.filter((e) => e.msg === 'venue.circuit_opened')).toHaveLength(1);
+
+    const skipped = await router.route(makeOrder());
+    expect(skipped.reasons?.find((r) => r.dex === 'raydium')?.reason).toBe(
+      'circuit open: 100% of the last 5 quotes failed'
+    );
+    expect(getQuote).not.toHaveBeenCalled();
+
+    clock += 5_000;
+    const probed = await router.route(makeOrder());
+    expect(probed.quotes.map((q) => q.dex)).toContain('raydium');
+    expect(raydium(router)).toEqual(expect.objectContaining({ state: 'closed', samples: 1, errors: 0 }));
+    expect(logger.entries.map((e) => e.msg)).toEqual(
+      expect.arrayContaining(['venue.circuit_half_open', 'venue.circuit_closed'])
+    );
+  });
+
+  test('a failed probe re-opens the circuit for another cooldown', async () => {
+    let clock = 1_000;
+    const { router } = healthRouter({ venues: ['raydium', 'orca'], now: () => clock });
+    router.faults.inject({ dex: 'raydium', kind: 'quote_timeout', timeoutMs: 10 });
+
+    for (let i = 0; i < 5; i++) await router.route(makeOrder());
+    clock += 5_000;
+    await router.route(makeOrder());
+    expect(raydium(router)).toEqual(expect.objectContaining({ state: 'open', openUntilMs: 11_000 }));
+  });
+
+  test('an order with every allowed venue open fails fast with CircuitOpenError', async () => {
+    const { router } = healthRouter({ venues: ['raydium'] });
+    router.faults.inject({ dex: 'raydium', kind: 'quote_timeout', timeoutMs: 10 });
+
+    for (let i = 0; i < 5; i++) await expect(router.route(makeOrder())).rejects.toThrow('timed out');
+    await expect(router.route(makeOrder())).rejects.toBeInstanceOf(CircuitOpenError);
+  });
+});
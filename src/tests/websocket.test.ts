@@ -19,6 +19,15 @@ class FakeQueueClient implements QueueClient {
   public async enqueue(payload: { orderId: string }): Promise<void> {
     this.enqueued.push(payload.orderId);
   }
+  public async enqueueBulk(payloads: Array<{ orderId: string }>): Promise<void> {
+    this.enqueued.push(...payloads.map((p) => p.orderId));
+  }
+  public async remove(orderId: string): Promise<boolean> {
+    const idx = this.enqueued.indexOf(orderId);
+    if (idx === -1) return false;
+    this.enqueued.splice(idx, 1);
+    return true;
+  }
   public async close(): Promise<void> {}
 }
 
@@ -213,6 +222,37 @@ describe('WebSocket lifecycle streaming (hermetic)', () => {
     }
   });
 
+  test('stop_loss orders stream pending→armed and are not enqueued', async () => {
+    const { app, port, deps } = await startHermeticServer();
+    try {
+      const res = await fetch(`http://127.0.0.1:${port}/api/orders/execute`, {
+        method: 'POST',
+        headers: { 'content-type': 'application/json' },
+        body: JSON.stringify({
+          type: 'stop_loss',
+          tokenIn: 'SOL',
+          tokenOut: 'USDC',
+          amount: 10,
+          slippageBps: 50,
+          triggerPrice: 0.8
+        })
+      });
+      const body = (await res.json()) as ExecuteOrderResponse;
+      const statuses: string[] = [];
+
+      const ws = new WebSocket(body.wsUrl);
+      wsCollectStatuses(ws, statuses);
+      await waitForStatus(statuses, 'armed');
+
+      expect(statuses).toEqual(['pending', 'armed']);
+      expect(deps.queue.enqueued).not.toContain(body.orderId);
+      expect(await deps.activeStore.listArmedOrders()).toContain(body.orderId);
+      ws.close();
+    } finally {
+      await app.close();
+    }
+  });
+
   test('WebSocket connect without orderId is rejected (1008)', async () => {
     const { app, port } = await startHermeticServer();
     try {
@@ -1,14 +1,44 @@
-export type OrderType = 'market';
+export type OrderType = 'market' | 'limit' | 'stop_loss' | 'take_profit' | 'twap' | 'sniper';
 
-export type DexName = 'raydium' | 'meteora';
+/**
+ * Venue identifier. Venues are registered at runtime (see `DexRegistry`), so any registered name is valid.
+ */
+export type DexName = string;
+
+/**
+ * exact_in: `amount` is the tokenIn amount spent. exact_out: `amount` is the tokenOut amount received,
+ * and the input is whatever the chosen venue requires.
+ */
+export type SwapMode = 'exact_in' | 'exact_out';
+
+/**
+ * gtc: retried and, for limit orders, rests until expiry. ioc / fok: a single attempt that never rests; the
+ * order expires instead of waiting or retrying. ioc confirms whatever part of the order filled; fok, like gtc,
+ * fails the order on a partial fill.
+ */
+export type TimeInForce = 'gtc' | 'ioc' | 'fok';
+
+/**
+ * best_price: the highest effective price (for exact_out, the least input). lowest_latency: the venue expected to
+ * land the swap soonest, ignoring splits and, where a direct pool exists, multi-hop paths.
+ */
+export type RoutingObjective = 'best_price' | 'lowest_latency';
 
 export type OrderStatus =
   | 'pending'
+  | 'amended'
+  | 'requoted'
+  | 'armed'
+  | 'triggered'
+  | 'progress'
   | 'routing'
   | 'building'
   | 'submitted'
   | 'confirmed'
-  | 'failed';
+  | 'failed'
+  | 'expired'
+  | 'completed'
+  | 'cancelled';
 
 export interface ExecuteOrderRequest {
   tokenIn: string;
@@ -18,6 +48,63 @@ export interface ExecuteOrderRequest {
    * Basis points. Example: 50 = 0.50%
    */
   slippageBps: number;
+  /**
+   * Defaults to 'market'. A `sniper` order arms against `tokenOut` and executes as soon as a launch
+   * event for that token arrives.
+   */
+  type?: OrderType;
+  /**
+   * Limit orders only: minimum acceptable effective price (tokenOut per tokenIn, after fees).
+   */
+  limitPrice?: number;
+  /**
+   * Limit orders only: epoch ms after which the order stops re-quoting and ends as `expired`.
+   */
+  expiresAtMs?: number;
+  /**
+   * stop_loss / take_profit only: the order stays armed until the best effective price crosses this level
+   * (at or below for stop_loss, at or above for take_profit), then executes as a market order.
+   */
+  triggerPrice?: number;
+  /**
+   * twap only: the parent order is split into `twapSlices` equal child orders spread evenly over `twapDurationMs`.
+   */
+  twapDurationMs?: number;
+  twapSlices?: number;
+  /**
+   * market only: execute on the venue and at the price of an unexpired dry-run quote from `GET /api/quotes`.
+   */
+  quoteId?: string;
+  /**
+   * Defaults to exact_in. With exact_out, slippageBps caps how much more input than quoted may be spent.
+   */
+  swapMode?: SwapMode;
+  /**
+   * market / limit only. Defaults to gtc.
+   */
+  timeInForce?: TimeInForce;
+  /**
+   * market / limit only: epoch ms after which the order must not trade. Checked before routing and again before
+   * submitting, so an order that waited too long in the queue expires instead of trading at a stale market.
+   */
+  deadlineMs?: number;
+  /**
+   * Venues the order must never be routed to, e.g. for compliance. Applies to every hop and split leg.
+   */
+  excludeDexes?: DexName[];
+  /**
+   * Route the whole order to this venue only.
+   */
+  pinnedDex?: DexName;
+  /**
+   * Defaults to best_price.
+   */
+  routingObjective?: RoutingObjective;
+  /**
+   * Compute-unit price in micro-lamports paid on top of the base network fee. Costs more per swap but lands it
+   * sooner; the router deducts the fee from each venue's effective price.
+   */
+  priorityFeeMicroLamports?: number;
 }
 
 export interface ExecuteOrderResponse {
@@ -25,6 +112,56 @@ export interface ExecuteOrderResponse {
   wsUrl: string;
 }
 
+export interface ExecuteBatchRequest {
+  orders: ExecuteOrderRequest[];
+  /**
+   * When true, nothing is submitted unless every order in the batch passes validation.
+   */
+  allOrNothing?: boolean;
+}
+
+export type BatchOrderResult = ({ ok: true } & ExecuteOrderResponse) | { ok: false; error: string };
+
+export interface ExecuteBatchResponse {
+  /**
+   * One entry per submitted order, in request order.
+   */
+  results: BatchOrderResult[];
+}
+
+export interface IdempotencyRecord {
+  key: string;
+  orderId: string;
+  /**
+   * sha256 of the validated request, so a reused key with a different body can be told apart.
+   */
+  requestHash: string;
+  response: ExecuteOrderResponse;
+  createdAtMs: number;
+}
+
+/**
+ * The fields of a pending order that can be changed with `PATCH /api/orders/:orderId`.
+ */
+export interface OrderAmendment {
+  amount: number;
+  slippageBps: number;
+}
+
+export type AmendOrderRequest = Partial<OrderAmendment>;
+
+export interface AmendOrderResponse {
+  orderId: string;
+  revision: number;
+  previous: OrderAmendment;
+  current: OrderAmendment;
+}
+
+export interface CancelOrderResponse {
+  orderId: string;
+  status: 'cancelled';
+}
+
 export interface Order {
   orderId: string;
   type: OrderType;
@@ -32,11 +169,38 @@ export interface Order {
   tokenOut: string;
   amount: number;
   slippageBps: number;
+  limitPrice?: number;
+  expiresAtMs?: number;
+  triggerPrice?: number;
+  twapDurationMs?: number;
+  twapSlices?: number;
+  /**
+   * Set on TWAP child orders; points at the twap parent.
+   */
+  parentOrderId?: string;
+  /**
+   * Set on orders placed against a dry-run quote: the worker skips routing and executes on `quotedDex`,
+   * applying slippage relative to `quotedPrice`.
+   */
+  quoteId?: string;
+  quotedDex?: DexName;
+  quotedPrice?: number;
+  swapMode?: SwapMode;
+  timeInForce?: TimeInForce;
+  deadlineMs?: number;
+  excludeDexes?: DexName[];
+  pinnedDex?: DexName;
+  routingObjective?: RoutingObjective;
+  priorityFeeMicroLamports?: number;
   createdAtMs: number;
 }
 
 export interface DexQuote {
   dex: DexName;
+  /**
+   * Size the quote was priced at, in the order's amount units. On a split leg, that leg's share of the order.
+   */
+  amount: number;
   /**
    * Unit price (tokenOut per tokenIn). For mock purposes this is arbitrary but consistent.
    */
@@ -46,23 +210,182 @@ export interface DexQuote {
    */
   feeRate: number;
   /**
-   * Effective price after fees, used for routing decision.
+   * Effective price after the venue fee and the network fee, used for routing decision.
+   */
+  effectivePrice: number;
+  /**
+   * Network fee (base plus priority fee) for the swap transaction, in tokenOut. Set by the router, which has
+   * already deducted it from effectivePrice.
+   */
+  networkFee?: number;
+  /**
+   * Epoch ms the venue's quote arrived, stamped by the router. Repricing a quote at another size (split legs)
+   * keeps the original time; a multi-hop quote carries its oldest hop's.
+   */
+  quotedAtMs?: number;
+  /**
+   * Set on exact_out routes only: tokenIn needed at this venue to receive the order's amount after fees.
+   */
+  requiredAmountIn?: number;
+}
+
+export interface SplitRoute {
+  /**
+   * One quote per venue, each priced at that leg's size.
+   */
+  legs: DexQuote[];
+  /**
+   * Volume-weighted effective price across the legs.
    */
   effectivePrice: number;
+  /**
+   * Set on exact_out routes only: total tokenIn across the legs.
+   */
+  requiredAmountIn?: number;
+}
+
+/**
+ * One pool on a multi-hop path, quoted at the amount expected to arrive from the previous hop.
+ */
+export interface RouteHop {
+  tokenIn: string;
+  tokenOut: string;
+  quotes: DexQuote[];
+  chosen: DexQuote;
 }
 
 export interface RoutingDecision {
-  raydium: DexQuote;
-  meteora: DexQuote;
+  /**
+   * One quote per registered venue for the direct pair, in registration order, each priced at the full order
+   * amount. Empty when the pair has no direct pool.
+   */
+  quotes: DexQuote[];
+  /**
+   * Best single venue for the full amount. On multi-hop routes, the compound quote across `hops`, whose `dex`
+   * joins each hop's venue with '>'.
+   */
   chosen: DexQuote;
+  /**
+   * Set when splitting the order across venues beats `chosen`; the worker then executes these legs instead.
+   */
+  split?: SplitRoute;
+  /**
+   * Set when a path through intermediate tokens beats the direct pair, or the pair has no direct pool.
+   * The worker then executes the hops in order.
+   */
+  hops?: RouteHop[];
+  /**
+   * Why each registered venue was chosen or skipped.
+   */
+  reasons?: VenueRoutingReason[];
+}
+
+export interface VenueRoutingReason {
+  dex: DexName;
+  chosen: boolean;
+  reason: string;
+}
+
+/**
+ * What a venue is asked to price. As on orders, `amount` is the tokenIn amount for exact_in and the tokenOut
+ * amount for exact_out.
+ */
+export interface QuoteRequest {
+  tokenIn: string;
+  tokenOut: string;
+  amount: number;
+  swapMode?: SwapMode;
+}
+
+/**
+ * Bounds a venue checks before a swap lands, like an on-chain minimum output: a swap outside them is rejected
+ * without moving the venue.
+ */
+export interface SwapLimits {
+  /**
+   * exact_in: lowest acceptable executed price.
+   */
+  minPrice?: number;
+  /**
+   * exact_out: most tokenIn the swap may spend.
+   */
+  maxAmountIn?: number;
+}
+
+/**
+ * A venue the router can quote and execute against. Register implementations with a `DexRegistry`.
+ */
+export interface DexAdapter {
+  readonly name: DexName;
+  readonly feeRate: number;
+  getQuote(request: QuoteRequest): Promise<DexQuote>;
+  /**
+   * Reprices `quote`, previously returned by this venue for the same pair, at `request.amount` along the venue's
+   * price-impact curve without a new round trip. Used to evaluate split routes.
+   */
+  quoteAtSize(quote: DexQuote, request: QuoteRequest): DexQuote;
+  /**
+   * Typical time from quote to a landed swap; used by the lowest_latency objective. Adapters without one rank last.
+   */
+  readonly expectedLatencyMs?: number;
+  /**
+   * Compute units a swap on this venue consumes, which the priority fee is charged on. Defaults to
+   * DEFAULT_SWAP_COMPUTE_UNITS.
+   */
+  readonly computeUnits?: number;
+  /**
+   * Throws SwapLimitExceededError, before anything executes, when the swap would fall outside `limits`.
+   */
+  executeSwap(order: Order, quotedPrice: number, limits?: SwapLimits): Promise<SwapExecutionResult>;
+}
+
+export interface RouteQuote {
+  quoteId: string;
+  tokenIn: string;
+  tokenOut: string;
+  amount: number;
+  decision: RoutingDecision;
+  createdAtMs: number;
+  expiresAtMs: number;
 }
 
 export interface SwapExecutionResult {
   dex: DexName;
   executedPrice: number;
   txHash: string;
+  amountIn: number;
+  amountOut: number;
 }
 
+/**
+ * One swap executed for an order: a venue's share of a split order, or one hop of a multi-hop route.
+ * Direct unsplit orders have a single leg.
+ */
+export interface OrderLeg extends SwapExecutionResult {
+  tokenIn: string;
+  tokenOut: string;
+  /**
+   * Amount sent into this swap: the venue's share of the order, or on a later hop what the previous hop received.
+   */
+  amount: number;
+}
+
+/**
+ * Aggregate fill state of a twap parent, derived from its child orders.
+ */
+export interface TwapProgress {
+  filledAmount: number;
+  /**
+   * Volume-weighted average executed price over confirmed slices; null until one fills.
+   */
+  averagePrice: number | null;
+  slicesFilled: number;
+  slicesFailed: number;
+  slicesRemaining: number;
+}
+
+export type RequoteReason = 'stale_quote' | 'retry';
+
 export interface OrderEventBase {
   orderId: string;
   status: OrderStatus;
@@ -71,11 +394,55 @@ export interface OrderEventBase {
 
 export type OrderEvent =
   | (OrderEventBase & { status: 'pending' })
+  /**
+   * revision counts amendments of the order, starting at 1.
+   */
+  | (OrderEventBase & { status: 'amended'; revision: number; previous: OrderAmendment; current: OrderAmendment })
+  | (OrderEventBase & { status: 'armed'; triggerPrice: number })
+  | (OrderEventBase & { status: 'armed'; launchToken: string })
+  | (OrderEventBase & { status: 'triggered'; triggerPrice: number; effectivePrice: number; dex: DexName })
+  | (OrderEventBase & { status: 'triggered'; launchToken: string; poolId: string })
+  | (OrderEventBase & { status: 'progress' } & TwapProgress)
   | (OrderEventBase & { status: 'routing' })
   | (OrderEventBase & { status: 'building' })
+  /**
+   * The worker re-quoted before submission (`stale_quote`) or on a retry (`retry`) and the route moved to another
+   * venue. Prices are effective prices.
+   */
+  | (OrderEventBase & {
+      status: 'requoted';
+      reason: RequoteReason;
+      previousDex: DexName;
+      previousEffectivePrice: number;
+      dex: DexName;
+      effectivePrice: number;
+    })
   | (OrderEventBase & { status: 'submitted' })
-  | (OrderEventBase & { status: 'confirmed'; txHash: string; dex: DexName; executedPrice: number })
-  | (OrderEventBase & { status: 'failed'; error: string });
+  | (OrderEventBase & {
+      status: 'confirmed';
+      /**
+       * `dex` and `txHash` are the largest leg's; `executedPrice` is volume-weighted across `legs`.
+       */
+      txHash: string;
+      dex: DexName;
+      executedPrice: number;
+      amountIn: number;
+      amountOut: number;
+      legs: OrderLeg[];
+    })
+  | (OrderEventBase & { status: 'failed'; error: string })
+  | (OrderEventBase & { status: 'expired'; reason: string })
+  | (OrderEventBase & { status: 'completed' } & TwapProgress)
+  | (OrderEventBase & { status: 'cancelled' });
+
+/**
+ * Simulated on-chain "pool created for token X" event.
+ */
+export interface TokenLaunchEvent {
+  token: string;
+  poolId: string;
+  tsMs: number;
+}
 
 export interface OrderFinalRecord {
   orderId: string;
@@ -89,10 +456,75 @@ export interface OrderFinalRecord {
   executedPrice: number | null;
   txHash: string | null;
   failureReason: string | null;
+  limitPrice: number | null;
+  expiresAtMs: number | null;
+  triggerPrice: number | null;
+  twapDurationMs: number | null;
+  twapSlices: number | null;
+  parentOrderId: string | null;
+  quoteId: string | null;
+  quotedPrice: number | null;
+  swapMode: SwapMode;
+  /**
+   * Actual amounts swapped, set once the order is confirmed.
+   */
+  amountIn: number | null;
+  amountOut: number | null;
+  timeInForce: TimeInForce;
+  deadlineMs: number | null;
+  excludeDexes: DexName[];
+  pinnedDex: DexName | null;
+  routingObjective: RoutingObjective;
+  priorityFeeMicroLamports: number | null;
+  /**
+   * Set once the order has been routed.
+   */
+  routingReasons: VenueRoutingReason[] | null;
   createdAtMs: number;
   updatedAtMs: number;
 }
 
+export interface OrderDetailsResponse extends OrderFinalRecord {
+  /**
+   * Lifecycle events from the active store, oldest first. Empty once the active-order TTL has expired.
+   */
+  events: OrderEvent[];
+  /**
+   * Per-venue fills, empty until the order is confirmed. A failed order lists the swaps that landed before it
+   * failed, if any.
+   */
+  legs: OrderLeg[];
+  /**
+   * 'active' when events were found in the active store, 'history' when served from Postgres alone.
+   */
+  source: 'active' | 'history';
+}
+
+export interface OrderSearchQuery {
+  status?: OrderStatus;
+  tokenIn?: string;
+  tokenOut?: string;
+  dexChosen?: DexName;
+  /**
+   * Inclusive lower / exclusive upper bound on created_at_ms.
+   */
+  createdFromMs?: number;
+  createdToMs?: number;
+  /**
+   * Keyset cursor: only rows strictly after this (created_at_ms, order_id) position in newest-first order.
+   */
+  after?: { createdAtMs: number; orderId: string };
+  limit: number;
+}
+
+export interface OrderSearchResponse {
+  items: OrderFinalRecord[];
+  /**
+   * Opaque cursor for the next page; null on the last page.
+   */
+  nextCursor: string | null;
+}
+
 export interface Logger {
   info(msg: string, meta?: Record<string, unknown>): void;
   warn(msg: string, meta?: Record<string, unknown>): void;
@@ -111,6 +543,29 @@ export interface ActiveOrderStore {
   appendEvent(orderId: string, event: OrderEvent, ttlSeconds: number): Promise<void>;
   listEvents(orderId: string): Promise<OrderEvent[]>;
   clear(orderId: string): Promise<void>;
+  /**
+   * Armed orders (stop_loss / take_profit / sniper) wait here until a watcher triggers them.
+   */
+  armOrder(orderId: string): Promise<void>;
+  listArmedOrders(): Promise<string[]>;
+  /**
+   * Returns true only for the caller that actually removed the order, so concurrent watchers
+   * cannot trigger the same order twice.
+   */
+  disarmOrder(orderId: string): Promise<boolean>;
+  /**
+   * Short-lived per-order mutex guarding lifecycle transitions that race between the API and the worker
+   * (e.g. cancel vs. routing → building). Returns false if another holder has it. `token` identifies the holder:
+   * unlock only releases a lock still held under the same token, so a holder that overran the TTL cannot release
+   * the next holder's lock.
+   */
+  tryLock(orderId: string, token: string, ttlMs: number): Promise<boolean>;
+  unlock(orderId: string, token: string): Promise<void>;
+  /**
+   * Dry-run quotes live only until their `expiresAtMs`; getQuote returns null once a quote has expired.
+   */
+  putQuote(quote: RouteQuote): Promise<void>;
+  getQuote(quoteId: string): Promise<RouteQuote | null>;
 }
 
 export interface SocketMappingStore {
@@ -126,20 +581,54 @@ export interface SocketMappingStore {
 export interface Db {
   initSchema(): Promise<void>;
   insertOrder(order: Order): Promise<void>;
+  /**
+   * `dex` and `txHash` record the largest leg, `executedPrice` the volume-weighted price; `legs` holds every fill.
+   */
   finalizeOrder(result: {
     orderId: string;
     dex: DexName;
     executedPrice: number;
     txHash: string;
+    amountIn: number;
+    amountOut: number;
+    legs: OrderLeg[];
     updatedAtMs: number;
   }): Promise<void>;
-  failOrder(result: { orderId: string; failureReason: string; updatedAtMs: number }): Promise<void>;
+  /**
+   * `legs` records swaps that landed before the order failed part-way.
+   */
+  failOrder(result: { orderId: string; failureReason: string; legs?: OrderLeg[]; updatedAtMs: number }): Promise<void>;
+  expireOrder(result: { orderId: string; reason: string; updatedAtMs: number }): Promise<void>;
+  completeOrder(result: { orderId: string; averagePrice: number; updatedAtMs: number }): Promise<void>;
+  cancelOrder(result: { orderId: string; updatedAtMs: number }): Promise<void>;
+  amendOrder(result: { orderId: string; amount: number; slippageBps: number; updatedAtMs: number }): Promise<void>;
+  recordRoutingReasons(result: { orderId: string; reasons: VenueRoutingReason[]; updatedAtMs: number }): Promise<void>;
   getOrder(orderId: string): Promise<OrderFinalRecord | null>;
+  listOrderLegs(orderId: string): Promise<OrderLeg[]>;
+  listChildOrders(parentOrderId: string): Promise<OrderFinalRecord[]>;
+  /**
+   * Newest first (created_at_ms DESC, order_id DESC), so keyset pagination is stable under concurrent inserts.
+   */
+  searchOrders(query: OrderSearchQuery): Promise<OrderFinalRecord[]>;
+  /**
+   * Stores the record unless the key already exists, and returns whichever record now owns the key.
+   */
+  claimIdempotencyKey(record: IdempotencyRecord): Promise<IdempotencyRecord>;
+  releaseIdempotencyKey(key: string, orderId: string): Promise<void>;
   close(): Promise<void>;
 }
 
 export interface QueueClient {
-  enqueue(payload: { orderId: string }): Promise<void>;
+  /**
+   * The job id defaults to the order id, which `remove` looks up. An order enqueued again while its earlier job
+   * is still held by the queue needs a `jobId` of its own.
+   */
+  enqueue(payload: { orderId: string }, opts?: { delayMs?: number; jobId?: string }): Promise<void>;
+  enqueueBulk(payloads: Array<{ orderId: string }>): Promise<void>;
+  /**
+   * Removes a job that has not started yet. Returns false if there is no such job or it is already running.
+   */
+  remove(orderId: string): Promise<boolean>;
   close(): Promise<void>;
 }
 
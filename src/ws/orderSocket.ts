@@ -13,11 +13,19 @@ export interface OrderSocketDeps {
 
 const statusRank: Record<OrderStatus, number> = {
   pending: 1,
-  routing: 2,
-  building: 3,
-  submitted: 4,
-  confirmed: 5,
-  failed: 6
+  amended: 2,
+  armed: 3,
+  triggered: 4,
+  progress: 5,
+  routing: 6,
+  building: 7,
+  requoted: 8,
+  submitted: 9,
+  confirmed: 10,
+  failed: 11,
+  expired: 12,
+  completed: 13,
+  cancelled: 14
 };
 
 function safeSend(ws: WebSocket, payload: unknown): void {
@@ -29,6 +37,17 @@ function sortByLifecycle(a: OrderEvent, b: OrderEvent): number {
   return statusRank[a.status] - statusRank[b.status];
 }
 
+/**
+ * Dedupe key for an event. Most statuses occur once per order; TWAP `progress` repeats once per settled slice,
+ * `amended` once per amendment and `requoted` once per venue change.
+ */
+function eventKey(event: OrderEvent): string {
+  if (event.status === 'progress') return `progress:${event.slicesRemaining}`;
+  if (event.status === 'amended') return `amended:${event.revision}`;
+  if (event.status === 'requoted') return `requoted:${event.tsMs}`;
+  return event.status;
+}
+
 export function createOrderSocket(deps: OrderSocketDeps): FastifyPluginCallback {
   return (fastify: FastifyInstance, _opts, done) => {
     fastify.get(
@@ -45,17 +64,17 @@ export function createOrderSocket(deps: OrderSocketDeps): FastifyPluginCallback
         await deps.socketMapping.add(orderId, connectionId, deps.activeOrderTtlSeconds);
         deps.logger.info('ws.connected', { orderId, connectionId });
 
-        const sent = new Set<OrderStatus>();
+        const sent = new Set<string>();
         let backlogFlushed = false;
         const buffer: OrderEvent[] = [];
 
         const unsubscribe = await deps.eventBus.subscribe(orderId, (event) => {
-          if (sent.has(event.status)) return;
+          if (sent.has(eventKey(event))) return;
           if (!backlogFlushed) {
             buffer.push(event);
             return;
           }
-          sent.add(event.status);
+          sent.add(eventKey(event));
           safeSend(socket, event);
         });
 
@@ -63,16 +82,16 @@ export function createOrderSocket(deps: OrderSocketDeps): FastifyPluginCallback
         const backlog = await deps.activeStore.listEvents(orderId);
         backlog.sort(sortByLifecycle);
         for (const ev of backlog) {
-          if (sent.has(ev.status)) continue;
-          sent.add(ev.status);
+          if (sent.has(eventKey(ev))) continue;
+          sent.add(eventKey(ev));
           safeSend(socket, ev);
         }
 
         backlogFlushed = true;
         buffer.sort(sortByLifecycle);
         for (const ev of buffer) {
-          if (sent.has(ev.status)) continue;
-          sent.add(ev.status);
+          if (sent.has(eventKey(ev))) continue;
+          sent.add(eventKey(ev));
           safeSend(socket, ev);
         }
 